@@ -13,6 +13,20 @@
  * - PARSE_MASTER_KEY: Your Parse Master Key (optional, for admin operations)
  * - PARSE_JS_KEY: Your Parse JavaScript Key (optional)
  * - PARSE_REST_KEY: Your Parse REST API Key (optional)
+ * - PARSE_FILES_URL: Host serving files, when not the Parse Server (optional)
+ * - PARSE_MCP_CONFIG: Path to a JSON file declaring named environments (optional)
+ * - MCP_READ_ONLY: Set to "true" to hide and reject mutating tools
+ * - MCP_REQUIRE_CONFIRMATION: Set to "false" to disable confirmation tokens
+ * - MCP_CONFIRMATION_TTL_SECONDS: Lifetime of confirmation tokens (default: 300)
+ * - MCP_AUDIT_SINKS: Audit log sinks, comma-separated: file, stderr, parse
+ * - MCP_AUDIT_FILE: JSONL file for the "file" sink (default: mcp-audit.jsonl)
+ * - MCP_AUDIT_CLASS: Parse class for the "parse" sink (default: MCPAuditLog)
+ * - MCP_RESPONSE_MAX_BYTES: Response size budget in bytes (default: 100000)
+ * - MCP_RESPONSE_MAX_TOKENS: Response size budget in tokens (overrides bytes)
+ * - MCP_MAX_STRING_LENGTH: Longer strings are truncated (default: 2000)
+ * - MCP_MAX_ARRAY_ITEMS: Longer arrays inside objects are truncated (default: 100)
+ * - MCP_EXPORT_DIR: Directory export_query may write files to (default: ./exports)
+ * - MCP_IMPORT_DIR: Directory import_data may read files from (default: ./imports)
  * - MCP_TRANSPORT: Transport mode - "http" (default) or "stdio"
  * - MCP_PORT: HTTP server port (default: 3000)
  * - MCP_HOST: HTTP server host (default: 0.0.0.0)
@@ -29,10 +43,13 @@ import {
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import Parse from "parse/node.js";
+import type ParseSDK from "parse/node.js";
 import express, { Request, Response } from "express";
 import cors from "cors";
-import { randomUUID } from "crypto";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { createRequire } from "module";
+import fs from "fs";
+import path from "path";
 
 // ============================================================================
 // Configuration and Initialization
@@ -43,42 +60,289 @@ const PARSE_APP_ID = process.env.PARSE_APP_ID || "";
 const PARSE_MASTER_KEY = process.env.PARSE_MASTER_KEY || "";
 const PARSE_JS_KEY = process.env.PARSE_JS_KEY || "";
 const PARSE_REST_KEY = process.env.PARSE_REST_KEY || "";
+// Where the file adapter serves files from, when not the Parse Server itself
+const PARSE_FILES_URL = process.env.PARSE_FILES_URL || "";
+
+// Path to a JSON config file declaring named connection profiles
+const PARSE_MCP_CONFIG = process.env.PARSE_MCP_CONFIG || "";
+
+// Read-only mode: hides and rejects every mutating tool
+const MCP_READ_ONLY = process.env.MCP_READ_ONLY?.toLowerCase() === "true";
+
+// Tools the server can't run (from /serverInfo): "hide" (default),
+// "annotate" or "show"
+const MCP_UNSUPPORTED_TOOLS =
+  process.env.MCP_UNSUPPORTED_TOOLS?.toLowerCase() || "hide";
+
+// Audit log sinks: comma-separated list of "file", "stderr" and "parse"
+const MCP_AUDIT_SINKS = (process.env.MCP_AUDIT_SINKS || "")
+  .split(",")
+  .map((sink) => sink.trim().toLowerCase())
+  .filter(Boolean);
+const MCP_AUDIT_FILE = process.env.MCP_AUDIT_FILE || "mcp-audit.jsonl";
+const MCP_AUDIT_CLASS = process.env.MCP_AUDIT_CLASS || "MCPAuditLog";
+
+// Two-phase confirmation for destructive tools (enabled unless set to "false")
+const MCP_REQUIRE_CONFIRMATION =
+  process.env.MCP_REQUIRE_CONFIRMATION?.toLowerCase() !== "false";
+const MCP_CONFIRMATION_TTL_SECONDS = parseInt(
+  process.env.MCP_CONFIRMATION_TTL_SECONDS || "300",
+  10
+);
+
+// Response size control: results over the budget are summarized. A token
+// budget is converted at roughly 4 bytes per token.
+const MCP_RESPONSE_MAX_BYTES = process.env.MCP_RESPONSE_MAX_TOKENS
+  ? parseInt(process.env.MCP_RESPONSE_MAX_TOKENS, 10) * 4
+  : parseInt(process.env.MCP_RESPONSE_MAX_BYTES || "100000", 10);
+const MCP_MAX_STRING_LENGTH = parseInt(
+  process.env.MCP_MAX_STRING_LENGTH || "2000",
+  10
+);
+const MCP_MAX_ARRAY_ITEMS = parseInt(
+  process.env.MCP_MAX_ARRAY_ITEMS || "100",
+  10
+);
+
+// Directory that export_query writes files to (file paths can't leave it)
+const MCP_EXPORT_DIR = process.env.MCP_EXPORT_DIR || "exports";
+
+// Directory that import_data and upload_file read files from
+const MCP_IMPORT_DIR = process.env.MCP_IMPORT_DIR || "imports";
 
 // MCP Transport configuration
 const MCP_TRANSPORT = process.env.MCP_TRANSPORT?.toLowerCase() || "http";
 const MCP_PORT = parseInt(process.env.MCP_PORT || "3000", 10);
 const MCP_HOST = process.env.MCP_HOST || "0.0.0.0";
 
-let isInitialized = false;
+type ParseClient = typeof ParseSDK;
 
-function initializeParse(): { success: boolean; error?: string } {
-  if (!PARSE_SERVER_URL) {
-    return {
-      success: false,
-      error: "PARSE_SERVER_URL environment variable is required",
-    };
+/**
+ * A named connection to a Parse Server app (e.g. "dev", "staging", "prod").
+ * Each profile owns its own Parse SDK instance so that keys and server URLs
+ * never leak between apps.
+ */
+interface ParseProfile {
+  name: string;
+  description?: string;
+  serverUrl: string;
+  appId: string;
+  masterKey: string;
+  jsKey: string;
+  restKey: string;
+  filesUrl?: string;
+  Parse: ParseClient;
+  initialized: boolean;
+  error?: string;
+  // Capabilities reported by the server, once checked
+  serverInfo?: ServerInfo;
+}
+
+interface ProfileConfig {
+  description?: string;
+  serverUrl?: string;
+  appId?: string;
+  masterKey?: string;
+  jsKey?: string;
+  restKey?: string;
+  filesUrl?: string;
+}
+
+/**
+ * An allow/deny rule of the access policy. Omitted lists match everything.
+ * `tools` accepts tool names, "*" (every tool) and "@mutating" (every tool
+ * that writes data or has side effects).
+ */
+interface PolicyRule {
+  name?: string;
+  effect: "allow" | "deny";
+  tools?: string[];
+  classes?: string[];
+  environments?: string[];
+}
+
+interface PolicyConfig {
+  readOnly?: boolean;
+  rules?: PolicyRule[];
+}
+
+interface McpConfigFile {
+  defaultEnvironment?: string;
+  environments?: Record<string, ProfileConfig>;
+  policy?: PolicyConfig;
+}
+
+const require = createRequire(import.meta.url);
+const PARSE_MODULE_ROOT =
+  path.dirname(require.resolve("parse/package.json")) + path.sep;
+
+/**
+ * The Parse SDK keeps its configuration (app id, keys, server URL, current
+ * user) in a module-level CoreManager. Loading a fresh copy of the module
+ * graph for each profile gives every profile its own isolated client state.
+ */
+function loadIsolatedParse(): ParseClient {
+  for (const key of Object.keys(require.cache)) {
+    if (key.startsWith(PARSE_MODULE_ROOT)) {
+      delete require.cache[key];
+    }
   }
-  if (!PARSE_APP_ID) {
-    return {
-      success: false,
-      error: "PARSE_APP_ID environment variable is required",
-    };
+  return require("parse/node.js") as ParseClient;
+}
+
+// Replaces ${VAR} references so secrets can stay in the environment
+function expandEnv(value: string | undefined): string {
+  return (value || "").replace(
+    /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g,
+    (_, variable: string) => process.env[variable] || ""
+  );
+}
+
+function loadConfigFile(): McpConfigFile {
+  if (!PARSE_MCP_CONFIG) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(PARSE_MCP_CONFIG, "utf8"));
+  } catch (error) {
+    console.error(
+      `Warning: Failed to read config file ${PARSE_MCP_CONFIG}: ${error}`
+    );
+    return {};
+  }
+}
+
+const mcpConfig = loadConfigFile();
+
+function initializeProfile(
+  name: string,
+  config: ProfileConfig
+): ParseProfile {
+  const profile: ParseProfile = {
+    name,
+    description: config.description,
+    serverUrl: expandEnv(config.serverUrl),
+    appId: expandEnv(config.appId),
+    masterKey: expandEnv(config.masterKey),
+    jsKey: expandEnv(config.jsKey),
+    restKey: expandEnv(config.restKey),
+    filesUrl: expandEnv(config.filesUrl) || undefined,
+    Parse: loadIsolatedParse(),
+    initialized: false,
+  };
+
+  if (!profile.serverUrl) {
+    profile.error = `serverUrl is required for environment "${name}"`;
+    return profile;
+  }
+  if (!profile.appId) {
+    profile.error = `appId is required for environment "${name}"`;
+    return profile;
   }
 
   try {
-    Parse.initialize(PARSE_APP_ID, PARSE_JS_KEY, PARSE_MASTER_KEY);
-    Parse.serverURL = PARSE_SERVER_URL;
-    isInitialized = true;
-    return { success: true };
+    profile.Parse.initialize(profile.appId, profile.jsKey, profile.masterKey);
+    profile.Parse.serverURL = profile.serverUrl;
+    profile.initialized = true;
   } catch (error) {
-    return { success: false, error: `Failed to initialize Parse: ${error}` };
+    profile.error = `Failed to initialize Parse: ${error}`;
+  }
+  return profile;
+}
+
+function initializeProfiles(): Map<string, ParseProfile> {
+  const profiles = new Map<string, ParseProfile>();
+
+  for (const [name, config] of Object.entries(
+    mcpConfig.environments || {}
+  )) {
+    profiles.set(name, initializeProfile(name, config));
+  }
+
+  // Without a config file, fall back to the single env-var connection
+  if (profiles.size === 0) {
+    const profile = initializeProfile("default", {
+      serverUrl: PARSE_SERVER_URL,
+      appId: PARSE_APP_ID,
+      masterKey: PARSE_MASTER_KEY,
+      jsKey: PARSE_JS_KEY,
+      restKey: PARSE_REST_KEY,
+      filesUrl: PARSE_FILES_URL,
+    });
+    if (!PARSE_SERVER_URL) {
+      profile.error = "PARSE_SERVER_URL environment variable is required";
+    } else if (!PARSE_APP_ID) {
+      profile.error = "PARSE_APP_ID environment variable is required";
+    }
+    profiles.set(profile.name, profile);
+  }
+
+  return profiles;
+}
+
+// Initialize all profiles on startup
+const profiles = initializeProfiles();
+for (const profile of profiles.values()) {
+  if (profile.error) {
+    console.error(`Warning [${profile.name}]: ${profile.error}`);
+  }
+}
+
+const defaultEnvironment =
+  mcpConfig.defaultEnvironment && profiles.has(mcpConfig.defaultEnvironment)
+    ? mcpConfig.defaultEnvironment
+    : profiles.keys().next().value!;
+
+// Active environment per MCP session (stdio has a single implicit session)
+const activeEnvironments = new Map<string, string>();
+
+function getActiveEnvironment(sessionId?: string): string {
+  return activeEnvironments.get(sessionId || "") || defaultEnvironment;
+}
+
+function resolveProfile(
+  environment: string | undefined,
+  sessionId?: string
+): ParseProfile | undefined {
+  return profiles.get(environment || getActiveEnvironment(sessionId));
+}
+
+/**
+ * Sends a raw REST request through a profile's SDK instance, for endpoints the
+ * SDK has no wrapper for. Paths are relative to the server URL.
+ */
+function parseRequest<T = unknown>(
+  profile: ParseProfile,
+  method: "GET" | "POST" | "PUT" | "DELETE",
+  path: string,
+  data: Record<string, unknown> = {},
+  options: { useMasterKey?: boolean; sessionToken?: string } = {
+    useMasterKey: !!profile.masterKey,
   }
+): Promise<T> {
+  const sdk = profile.Parse as unknown as {
+    _request(
+      method: string,
+      path: string,
+      data: Record<string, unknown>,
+      options: Record<string, unknown>
+    ): Promise<T>;
+  };
+  return sdk._request(method, path, data, options);
 }
 
-// Initialize Parse on startup
-const initResult = initializeParse();
-if (!initResult.success) {
-  console.error(`Warning: ${initResult.error}`);
+function describeProfile(profile: ParseProfile) {
+  return {
+    environment: profile.name,
+    description: profile.description,
+    serverUrl: profile.serverUrl,
+    appId: profile.appId,
+    hasMasterKey: !!profile.masterKey,
+    hasJsKey: !!profile.jsKey,
+    hasRestKey: !!profile.restKey,
+    initialized: profile.initialized,
+    error: profile.error,
+  };
 }
 
 // ============================================================================
@@ -95,17 +359,248 @@ Tests the connection to the Parse Server and returns server health status.
 
 Use this tool FIRST to verify the connection is working before performing any other operations.
 
+Parameters:
+- allEnvironments: If true, checks every configured environment instead of just one
+
 Returns:
 - Connection status (connected/disconnected)
-- Server URL being used
+- Environment name and server URL being used
 - Whether Master Key is configured
 - Any connection errors`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        allEnvironments: {
+          type: "boolean",
+          description:
+            "If true, check the connection of every configured environment",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "get_server_info",
+    description: `🔌 **Get Server Info**
+
+Reads Parse Server's /serverInfo and reports what the server supports.
+
+⚠️ REQUIRES MASTER KEY
+
+Returns:
+- parseServerVersion
+- features: globalConfig, hooks, cloudCode, logs, push, schemas (as reported by the server)
+- database: "mongodb", "postgres", "other" or "unknown" (detected with an explained query)
+- unsupportedTools: Tools this server can't run, and why
+
+💡 **TIP**: Unsupported tools are hidden from the tool list (or annotated,
+depending on MCP_UNSUPPORTED_TOOLS) once the server has been checked.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: "list_environments",
+    description: `🌐 **List Configured Environments**
+
+Lists every Parse app (environment) this server can connect to, e.g. dev, staging, prod.
+
+Returns:
+- The active environment for this session
+- For each environment: name, description, server URL, app ID and which keys are configured
+
+💡 **TIP**: Every tool accepts an optional \`environment\` argument to target a specific app for a single call.`,
     inputSchema: {
       type: "object" as const,
       properties: {},
       required: [],
     },
   },
+  {
+    name: "switch_environment",
+    description: `🌐 **Switch Active Environment**
+
+Changes the environment used by subsequent tool calls in this session.
+
+⚠️ Double-check the target before switching to a production environment.
+
+Parameters:
+- environment: The name of the environment to switch to (see list_environments)
+
+Returns:
+- The previous and new active environment`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        environment: {
+          type: "string",
+          description: "The name of the environment to switch to",
+        },
+      },
+      required: ["environment"],
+    },
+  },
+  {
+    name: "get_audit_log",
+    description: `📜 **Get Audit Log**
+
+Returns recent tool calls made through this server, newest first.
+
+Every call is recorded with its timestamp, session, environment, tool name,
+arguments (secrets redacted), affected class and objectIds, outcome, error code
+and duration. Mutating calls also include the before-image of each changed object.
+
+Parameters:
+- limit: Maximum entries to return (default: 50, max: 500)
+- tool: Only entries for this tool
+- className: Only entries affecting this class
+- objectId: Only entries affecting this objectId
+- outcome: Only entries with this outcome (success, error, denied, confirmation_required, dry_run)
+- sessionId: Only entries from this MCP session
+- environment: Only entries for this environment
+- since: Only entries after this ISO date
+
+💡 **TIP**: Use this to answer "what did the agent change?" or to find the before-image of an object.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: {
+          type: "number",
+          description: "Maximum entries to return (default: 50, max: 500)",
+        },
+        tool: {
+          type: "string",
+          description: "Only entries for this tool",
+        },
+        className: {
+          type: "string",
+          description: "Only entries affecting this class",
+        },
+        objectId: {
+          type: "string",
+          description: "Only entries affecting this objectId",
+        },
+        outcome: {
+          type: "string",
+          enum: [
+            "success",
+            "error",
+            "denied",
+            "confirmation_required",
+            "dry_run",
+          ],
+          description: "Only entries with this outcome",
+        },
+        sessionId: {
+          type: "string",
+          description: "Only entries from this MCP session",
+        },
+        environment: {
+          type: "string",
+          description: "Only entries for this environment",
+        },
+        since: {
+          type: "string",
+          description: "Only entries after this ISO date",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "list_changes",
+    description: `↩️ **List Recent Changes**
+
+Lists the changes made through this server that can be undone, newest first.
+
+A snapshot of each object is saved before any mutating tool touches it.
+The journal is kept in memory and is lost when the server restarts.
+
+Parameters:
+- limit: Maximum changes to return (default: 20)
+- className: Only changes to this class
+- objectId: Only changes affecting this objectId
+- environment: Only changes in this environment
+- includeUndone: If true, also list changes that were already undone
+
+Returns:
+- changeId, timestamp, tool, class and objectIds of each change`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: {
+          type: "number",
+          description: "Maximum changes to return (default: 20)",
+        },
+        className: {
+          type: "string",
+          description: "Only changes to this class",
+        },
+        objectId: {
+          type: "string",
+          description: "Only changes affecting this objectId",
+        },
+        environment: {
+          type: "string",
+          description: "Only changes in this environment",
+        },
+        includeUndone: {
+          type: "boolean",
+          description: "If true, also list changes that were already undone",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "undo_change",
+    description: `↩️ **Undo a Change**
+
+⚠️ **WARNING: This tool MODIFIES the database!**
+🛡️ **ALWAYS ask the user for permission before undoing a change.**
+
+Reverts a change listed by list_changes, using the snapshot taken before it ran:
+- Created objects are deleted
+- Updated fields are set back to their previous values (other fields are left alone)
+- Deleted objects are recreated with their original field values
+- Relation additions/removals and config updates are reversed
+- Class-level permissions changed by set_class_permissions are restored
+- ACLs changed by bulk_set_object_acl are set back
+
+If an object was modified again since the change, nothing is reverted and the
+conflicts are returned. Call again with force: true to overwrite them.
+
+Parameters:
+- changeId: The changeId from list_changes
+- force: If true, revert even objects that changed again since
+- confirmationToken: Token returned by the first call, required to actually run the undo
+
+🔐 **Two-phase:** the first call returns a plan (the change, the objects it touched and any conflicts) and a confirmationToken. Nothing is reverted until the tool is called again with the same arguments and that token.
+
+Returns:
+- What was reverted for each object, and any conflicts`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        changeId: {
+          type: "string",
+          description: "The changeId from list_changes",
+        },
+        force: {
+          type: "boolean",
+          description: "If true, revert even objects that changed again since",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["changeId"],
+    },
+  },
 
   // === Schema Exploration ===
   {
@@ -162,1035 +657,9927 @@ Returns:
     },
   },
 
-  // === Data Exploration & Querying ===
+  // === Schema Management ===
   {
-    name: "get_sample_objects",
-    description: `🔍 **Get Sample Objects from a Class**
+    name: "create_class",
+    description: `🏗️ **Create a Class**
 
-Retrieves a few recent objects from a class to understand its actual data structure.
+⚠️ **WARNING: This tool MODIFIES the database schema!**
+🛡️ **ALWAYS ask the user for permission before creating classes.**
 
-This is HIGHLY RECOMMENDED before writing queries because:
-- Schemas may have evolved over time (new fields added, old ones deprecated)
-- Some objects may have optional fields that aren't always present
-- Real data helps understand the actual values and formats used
+Creates a new class, optionally with fields, indexes and class-level permissions.
+
+⚠️ REQUIRES MASTER KEY
 
 Parameters:
-- className: The name of the class to sample
-- limit: Number of objects to retrieve (default: 5, max: 20)
-- includePointers: Whether to include full pointer objects (default: false)
+- className: The name of the new class
+- fields: Object of fieldName → { type, targetClass?, required?, defaultValue? }
+- indexes: Object of indexName → { field: 1 | -1 }
+- classLevelPermissions: CLP object (same format as get_class_schema returns)
 
-Returns:
-- Array of sample objects with all their fields
-- Objects are sorted by createdAt (newest first)
+Field types: String, Number, Boolean, Date, File, GeoPoint, Polygon, Array,
+Object, Bytes, Pointer and Relation (Pointer and Relation need targetClass).
 
-💡 **TIP**: Always call this for classes you're unfamiliar with to see real data examples.`,
+Returns:
+- The schema of the created class`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the Parse class to sample",
-        },
-        limit: {
-          type: "number",
-          description: "Number of objects to retrieve (default: 5, max: 20)",
+          description: "The name of the new class",
         },
-        includePointers: {
-          type: "boolean",
+        fields: {
+          type: "object",
           description:
-            "Whether to include full pointer objects instead of just references (default: false)",
+            "fieldName → { type, targetClass?, required?, defaultValue? }",
+        },
+        indexes: {
+          type: "object",
+          description: "indexName → { field: 1 | -1 }",
+        },
+        classLevelPermissions: {
+          type: "object",
+          description: "Class-level permissions object",
         },
       },
       required: ["className"],
     },
   },
   {
-    name: "query_class",
-    description: `🔍 **Query Objects from a Class**
+    name: "add_field",
+    description: `🏗️ **Add a Field to a Class**
 
-Performs a query on a Parse class with various filters and options.
+⚠️ **WARNING: This tool MODIFIES the database schema!**
+🛡️ **ALWAYS ask the user for permission before changing the schema.**
+
+Adds a field to an existing class.
+
+⚠️ REQUIRES MASTER KEY
 
 Parameters:
-- className: The name of the class to query
-- where: Query constraints as a JSON object (see below for syntax)
-- limit: Maximum objects to return (default: 100, max: 1000)
-- skip: Number of objects to skip for pagination
-- order: Field(s) to sort by. Prefix with "-" for descending (e.g., "-createdAt")
-- include: Array of pointer fields to include full objects for
-- keys: Array of fields to return (omit for all fields)
-- count: If true, also return total count matching query
+- className: The class to change
+- fieldName: The name of the new field
+- type: String, Number, Boolean, Date, File, GeoPoint, Polygon, Array, Object,
+  Bytes, Pointer or Relation
+- targetClass: Target class for Pointer and Relation fields
+- required: If true, objects must have a value for this field
+- defaultValue: Value used when an object is saved without this field
+  (converted to the field type, e.g. "2024-01-01" for a Date)
 
-**Query Constraint Syntax (where parameter):**
-\`\`\`json
-{
-  "field": "value",                    // Equals
-  "field": { "$ne": "value" },         // Not equals
-  "field": { "$lt": 10 },              // Less than
-  "field": { "$lte": 10 },             // Less than or equal
-  "field": { "$gt": 10 },              // Greater than
-  "field": { "$gte": 10 },             // Greater than or equal
-  "field": { "$in": ["a", "b"] },      // In array
-  "field": { "$nin": ["a", "b"] },     // Not in array
-  "field": { "$exists": true },        // Field exists
-  "field": { "$regex": "pattern" },    // Regex match
-  "field": { "$regex": "pattern", "$options": "i" },  // Case-insensitive regex
-  "$or": [{ "a": 1 }, { "b": 2 }],     // OR conditions
-  "$and": [{ "a": 1 }, { "b": 2 }],    // AND conditions
-  "pointer": { "__type": "Pointer", "className": "X", "objectId": "abc" }  // Pointer match
-}
-\`\`\`
-
-💡 **TIP**: Use get_sample_objects first to understand the data structure before writing complex queries.`,
+Returns:
+- The updated class schema`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the Parse class to query",
-        },
-        where: {
-          type: "object",
-          description: "Query constraints as a JSON object",
-        },
-        limit: {
-          type: "number",
-          description: "Maximum objects to return (default: 100, max: 1000)",
-        },
-        skip: {
-          type: "number",
-          description: "Number of objects to skip for pagination",
+          description: "The class to change",
         },
-        order: {
+        fieldName: {
           type: "string",
-          description:
-            "Field(s) to sort by. Prefix with '-' for descending. Comma-separate multiple fields.",
+          description: "The name of the new field",
         },
-        include: {
-          type: "array",
-          items: { type: "string" },
-          description:
-            "Array of pointer field names to include full objects for",
+        type: {
+          type: "string",
+          enum: [
+            "String",
+            "Number",
+            "Boolean",
+            "Date",
+            "File",
+            "GeoPoint",
+            "Polygon",
+            "Array",
+            "Object",
+            "Bytes",
+            "Pointer",
+            "Relation",
+          ],
+          description: "The field type",
         },
-        keys: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of field names to return (omit for all)",
+        targetClass: {
+          type: "string",
+          description: "Target class for Pointer and Relation fields",
         },
-        count: {
+        required: {
           type: "boolean",
-          description: "If true, also return total count matching query",
+          description: "If true, objects must have a value for this field",
+        },
+        defaultValue: {
+          description: "Value used when an object is saved without this field",
         },
       },
-      required: ["className"],
+      required: ["className", "fieldName", "type"],
     },
   },
   {
-    name: "count_objects",
-    description: `📊 **Count Objects in a Class**
+    name: "delete_field",
+    description: `🗑️ **Delete a Field from a Class**
 
-Returns the total count of objects matching a query.
+⚠️ **DANGER: This tool PERMANENTLY DELETES data!**
+🛡️ **ALWAYS ask the user for explicit permission before deleting.**
+⚠️ **The field's values are removed from every object and cannot be restored!**
+
+Removes a field from a class schema and its value from every object.
+
+⚠️ REQUIRES MASTER KEY
 
 Parameters:
-- className: The name of the class to count
-- where: Optional query constraints (same syntax as query_class)
+- className: The class to change
+- fieldName: The field to delete
+- dryRun: If true, report how many objects have a value for the field without deleting it
+- confirmationToken: Token returned by the first call, required to actually run the change
 
-Returns:
-- Total count of matching objects
+🔐 **Two-phase:** the first call returns a plan (including how many objects are affected) and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
 
-💡 **TIP**: Useful for understanding data volume before running large queries.`,
+Returns:
+- The updated class schema`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the Parse class to count",
+          description: "The class to change",
         },
-        where: {
-          type: "object",
-          description: "Optional query constraints",
+        fieldName: {
+          type: "string",
+          description: "The field to delete",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, report the affected objects without deleting anything",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
         },
       },
-      required: ["className"],
+      required: ["className", "fieldName"],
     },
   },
   {
-    name: "get_object_by_id",
-    description: `🔍 **Get a Single Object by ID**
+    name: "add_index",
+    description: `🏗️ **Add an Index to a Class**
 
-Retrieves a specific object by its objectId.
+⚠️ **WARNING: This tool MODIFIES the database schema!**
+🛡️ **ALWAYS ask the user for permission before changing the schema.**
+
+Creates a database index. Building an index on a large class can take a
+while and adds load to the database.
+
+⚠️ REQUIRES MASTER KEY
 
 Parameters:
-- className: The name of the class
-- objectId: The unique objectId of the object
-- include: Array of pointer fields to include full objects for
+- className: The class to index
+- indexName: The name of the index
+- index: Fields of the index, e.g. { "email": 1 } or { "user": 1, "createdAt": -1 }
 
 Returns:
-- The complete object with all fields
-
-💡 **TIP**: Use this when you know the exact object you need.`,
+- The updated class schema`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the Parse class",
+          description: "The class to index",
         },
-        objectId: {
+        indexName: {
           type: "string",
-          description: "The objectId of the object to retrieve",
+          description: "The name of the index",
         },
-        include: {
-          type: "array",
-          items: { type: "string" },
-          description:
-            "Array of pointer field names to include full objects for",
+        index: {
+          type: "object",
+          description: "field → 1 (ascending) or -1 (descending)",
         },
       },
-      required: ["className", "objectId"],
+      required: ["className", "indexName", "index"],
     },
   },
-
-  // === Relation Queries ===
   {
-    name: "query_relation",
-    description: `🔗 **Query Relation Field**
+    name: "drop_index",
+    description: `🗑️ **Drop an Index from a Class**
 
-Queries objects in a Relation field of a parent object.
+⚠️ **WARNING: This tool MODIFIES the database schema!**
+🛡️ **ALWAYS ask the user for explicit permission before dropping indexes.**
 
-Parse Relations are many-to-many relationships stored separately from the parent object.
+Removes a database index. Queries that relied on it may become slow.
+
+⚠️ REQUIRES MASTER KEY
 
 Parameters:
-- parentClassName: The class name of the parent object
-- parentObjectId: The objectId of the parent object
-- relationKey: The name of the relation field
-- where: Optional additional query constraints on related objects
-- limit: Maximum objects to return (default: 100)
-- skip: Number to skip for pagination
-- order: Field to sort by
+- className: The class of the index
+- indexName: The index to drop
+- dryRun: If true, show the index and the class size without dropping it
+- confirmationToken: Token returned by the first call, required to actually run the change
 
-Example: Get all comments related to a post:
-- parentClassName: "Post"
-- parentObjectId: "abc123"
-- relationKey: "comments"
+🔐 **Two-phase:** the first call returns a plan and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
 
 Returns:
-- Array of related objects`,
+- The updated class schema`,
     inputSchema: {
       type: "object" as const,
       properties: {
-        parentClassName: {
+        className: {
           type: "string",
-          description: "The class name of the parent object",
+          description: "The class of the index",
         },
-        parentObjectId: {
+        indexName: {
           type: "string",
-          description: "The objectId of the parent object",
+          description: "The index to drop",
         },
-        relationKey: {
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, show the index and class size without dropping it",
+        },
+        confirmationToken: {
           type: "string",
-          description: "The name of the relation field",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
         },
-        where: {
-          type: "object",
-          description: "Optional additional query constraints",
+      },
+      required: ["className", "indexName"],
+    },
+  },
+  {
+    name: "delete_class",
+    description: `🗑️ **Delete a Class**
+
+⚠️ **DANGER: This tool PERMANENTLY DELETES data!**
+🛡️ **ALWAYS ask the user for explicit permission before deleting.**
+⚠️ **This action cannot be undone!**
+
+Deletes a class and its schema. Only empty classes can be deleted, unless
+purge is true, in which case every object in the class is deleted first.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- className: The class to delete
+- purge: If true, delete all objects of the class before deleting it
+- dryRun: If true, report how many objects the class has without deleting anything
+- confirmationToken: Token returned by the first call, required to actually run the change
+
+🔐 **Two-phase:** the first call returns a plan (including how many objects would be purged) and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
+
+Returns:
+- Confirmation of deletion`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The class to delete",
         },
-        limit: {
-          type: "number",
-          description: "Maximum objects to return (default: 100)",
+        purge: {
+          type: "boolean",
+          description:
+            "If true, delete all objects of the class before deleting it",
         },
-        skip: {
-          type: "number",
-          description: "Number of objects to skip",
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, report the affected objects without deleting anything",
         },
-        order: {
+        confirmationToken: {
           type: "string",
-          description: "Field to sort by",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
         },
       },
-      required: ["parentClassName", "parentObjectId", "relationKey"],
+      required: ["className"],
     },
   },
 
-  // === Data Modification (with warnings) ===
+  // === Security ===
   {
-    name: "create_object",
-    description: `➕ **Create a New Object**
-
-⚠️ **WARNING: This tool MODIFIES the database!**
-🛡️ **ALWAYS ask the user for permission before creating objects.**
+    name: "set_class_permissions",
+    description: `🔒 **Set Class-Level Permissions**
 
-Creates a new object in a Parse class.
-
-Parameters:
-- className: The name of the class to create the object in
-- data: Object containing the field values to set
+⚠️ **WARNING: This tool MODIFIES security settings!**
+🛡️ **ALWAYS ask the user for permission before changing permissions.**
 
-For setting Pointers, use this format:
-\`\`\`json
-{
-  "pointerField": {
-    "__type": "Pointer",
-    "className": "TargetClass",
-    "objectId": "targetObjectId"
-  }
-}
-\`\`\`
+Edits the class-level permissions (CLP) of a class. Each rule grants or
+revokes one or more operations for a principal; other entries are kept.
 
-For setting Files:
-\`\`\`json
-{
-  "fileField": {
-    "__type": "File",
-    "name": "filename.jpg",
-    "url": "https://..."
-  }
-}
-\`\`\`
+⚠️ REQUIRES MASTER KEY
 
-For setting GeoPoints:
-\`\`\`json
-{
-  "location": {
-    "__type": "GeoPoint",
-    "latitude": 40.7128,
-    "longitude": -74.0060
-  }
-}
-\`\`\`
+Parameters:
+- className: The class to change
+- rules: Array of { operations, principal, allow }
+  - operations: find, get, count, create, update, delete, addField
+  - principal: "public", "authenticated", "role:<name>", "user:<objectId>"
+    or "pointer:<field>" (users referenced by that pointer/array field)
+  - allow: true to grant, false to revoke
+- protectedFields: Object of principal → fields hidden from that principal
+  (an empty array removes the entry), e.g. { "public": ["email", "phone"] }
+- replace: A complete CLP object to set instead of editing (advanced)
+- dryRun: If true, return the before/after permissions without saving anything
+
+Operations without any entry are only available with the Master Key.
 
 Returns:
-- The created object with objectId, createdAt, and all fields`,
+- The class-level permissions before and after the change`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the class to create the object in",
+          description: "The class to change",
         },
-        data: {
+        rules: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              operations: {
+                type: "array",
+                items: {
+                  type: "string",
+                  enum: [
+                    "find",
+                    "get",
+                    "count",
+                    "create",
+                    "update",
+                    "delete",
+                    "addField",
+                  ],
+                },
+              },
+              principal: { type: "string" },
+              allow: { type: "boolean" },
+            },
+            required: ["operations", "principal", "allow"],
+          },
+          description: "Grant/revoke rules: { operations, principal, allow }",
+        },
+        protectedFields: {
           type: "object",
-          description: "The field values for the new object",
+          description:
+            "principal → array of fields hidden from it (empty array removes the entry)",
+        },
+        replace: {
+          type: "object",
+          description: "Complete CLP object to set instead of editing",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return the before/after permissions without saving anything",
         },
       },
-      required: ["className", "data"],
+      required: ["className"],
     },
   },
   {
-    name: "update_object",
-    description: `✏️ **Update an Existing Object**
+    name: "audit_security",
+    description: `🛡️ **Audit Security Settings**
 
-⚠️ **WARNING: This tool MODIFIES the database!**
-🛡️ **ALWAYS ask the user for permission before updating objects.**
+Scans the class-level permissions of every class and flags risky settings:
+- Public create, update or delete
+- addField open to the public (clients can change the schema)
+- _User (or other classes) readable or countable by everyone
+- Operations without any CLP entry (Parse Server treats them as public)
+- Sensitive-looking fields (password, token, email, phone...) that are
+  readable but missing from protectedFields
 
-Updates an existing object with new field values.
+⚠️ REQUIRES MASTER KEY
 
 Parameters:
-- className: The name of the class
-- objectId: The objectId of the object to update
-- data: Object containing the field values to update
-
-Special operations in data:
-- To increment a number: { "score": { "__op": "Increment", "amount": 1 } }
-- To add to array: { "tags": { "__op": "Add", "objects": ["new"] } }
-- To add unique to array: { "tags": { "__op": "AddUnique", "objects": ["new"] } }
-- To remove from array: { "tags": { "__op": "Remove", "objects": ["old"] } }
-- To delete a field: { "obsoleteField": { "__op": "Delete" } }
+- className: Only audit this class (default: all classes)
+- includeSystemClasses: If false, skip classes starting with "_" except _User (default: true)
 
 Returns:
-- The updated object
+- Findings with severity (high, medium, low), class, operation and a recommendation
 
-💡 **TIP**: First use get_object_by_id to see current values before updating.`,
+💡 **TIP**: Fix findings with set_class_permissions.`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the class",
-        },
-        objectId: {
-          type: "string",
-          description: "The objectId of the object to update",
+          description: "Only audit this class (default: all classes)",
         },
-        data: {
-          type: "object",
-          description: "The field values to update",
+        includeSystemClasses: {
+          type: "boolean",
+          description:
+            "If false, skip system classes except _User (default: true)",
         },
       },
-      required: ["className", "objectId", "data"],
+      required: [],
     },
   },
-  {
-    name: "delete_object",
-    description: `🗑️ **Delete an Object**
 
-⚠️ **DANGER: This tool PERMANENTLY DELETES data!**
-🛡️ **ALWAYS ask the user for explicit permission before deleting.**
-⚠️ **This action cannot be undone!**
+  {
+    name: "get_object_acl",
+    description: `🔒 **Get an Object's ACL**
 
-Deletes an object from a Parse class.
+Returns a readable breakdown of who can read and write one object:
+public access, each user (resolved to a username) and each role.
 
 Parameters:
-- className: The name of the class
-- objectId: The objectId of the object to delete
+- className: The class of the object
+- objectId: The objectId of the object
 
 Returns:
-- Confirmation of deletion
+- Public, user and role read/write access, and a one-line summary
 
-💡 **TIP**: First use get_object_by_id to verify this is the correct object to delete.`,
+💡 **TIP**: Start here for "user can't see their data" tickets. The class-level
+permissions (get_class_schema) must also allow the operation.`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the class",
+          description: "The class of the object",
         },
         objectId: {
           type: "string",
-          description: "The objectId of the object to delete",
+          description: "The objectId of the object",
         },
       },
       required: ["className", "objectId"],
     },
   },
-
-  // === Relation Modification ===
   {
-    name: "add_to_relation",
-    description: `🔗 **Add Objects to a Relation**
+    name: "set_object_acl",
+    description: `🔒 **Set an Object's ACL**
 
-⚠️ **WARNING: This tool MODIFIES the database!**
-🛡️ **ALWAYS ask the user for permission before modifying relations.**
+⚠️ **WARNING: This tool MODIFIES security settings!**
+🛡️ **ALWAYS ask the user for permission before changing ACLs.**
 
-Adds one or more objects to a Relation field.
+Grants or revokes read/write access on one object. Entries not mentioned
+in grants are kept.
 
 Parameters:
-- parentClassName: The class of the parent object
-- parentObjectId: The objectId of the parent
-- relationKey: The name of the relation field
-- targetClassName: The class of objects to add
-- targetObjectIds: Array of objectIds to add to the relation
+- className: The class of the object
+- objectId: The objectId of the object
+- grants: Array of { principal, read?, write? }
+  - principal: "public", "role:<name>", "user:<objectId>" or "username:<name>"
+  - read / write: true to grant, false to revoke, omit to leave unchanged
+- replace: A complete ACL object to set instead of editing (advanced)
+- dryRun: If true, return the ACL before and after without saving anything
 
-Example: Add comments to a post's "comments" relation
-- parentClassName: "Post"
-- parentObjectId: "abc123"
-- relationKey: "comments"
-- targetClassName: "Comment"
-- targetObjectIds: ["comment1", "comment2"]`,
+Returns:
+- The new ACL breakdown`,
     inputSchema: {
       type: "object" as const,
       properties: {
-        parentClassName: {
+        className: {
           type: "string",
-          description: "The class of the parent object",
+          description: "The class of the object",
         },
-        parentObjectId: {
+        objectId: {
           type: "string",
-          description: "The objectId of the parent",
+          description: "The objectId of the object",
         },
-        relationKey: {
-          type: "string",
-          description: "The name of the relation field",
+        grants: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              principal: { type: "string" },
+              read: { type: "boolean" },
+              write: { type: "boolean" },
+            },
+            required: ["principal"],
+          },
+          description: "Grant/revoke entries: { principal, read?, write? }",
         },
-        targetClassName: {
-          type: "string",
-          description: "The class of objects to add",
+        replace: {
+          type: "object",
+          description: "Complete ACL object to set instead of editing",
         },
-        targetObjectIds: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of objectIds to add to the relation",
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return the ACL before and after without saving anything",
         },
       },
-      required: [
-        "parentClassName",
-        "parentObjectId",
-        "relationKey",
-        "targetClassName",
-        "targetObjectIds",
-      ],
+      required: ["className", "objectId"],
     },
   },
   {
-    name: "remove_from_relation",
-    description: `🔗 **Remove Objects from a Relation**
+    name: "bulk_set_object_acl",
+    description: `🔒 **Set the ACL of Every Matching Object**
 
-⚠️ **WARNING: This tool MODIFIES the database!**
-🛡️ **ALWAYS ask the user for permission before modifying relations.**
+⚠️ **WARNING: This tool MODIFIES security settings of many objects!**
+🛡️ **ALWAYS ask the user for explicit permission before changing ACLs.**
 
-Removes one or more objects from a Relation field.
+Applies the same grants as set_object_acl to every object matching a query.
 
 Parameters:
-- parentClassName: The class of the parent object
-- parentObjectId: The objectId of the parent
-- relationKey: The name of the relation field
-- targetClassName: The class of objects to remove
-- targetObjectIds: Array of objectIds to remove from the relation`,
+- className: The class to update
+- where: Query constraints selecting the objects (same syntax as query_class)
+- grants: Array of { principal, read?, write? } (see set_object_acl)
+- replace: A complete ACL object to set on every object instead of editing
+- maxObjects: Maximum objects to update (default: 1000, max: 100000)
+- cursor: nextCursor from a previous call, to continue after maxObjects
+- dryRun: If true, return the match count and a sample of changes without saving
+- confirmationToken: Token returned by the first call, required to actually run the change
+
+🔐 **Two-phase:** the first call returns a plan (match count and sample changes) and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
+
+Returns:
+- Matched, updated and unchanged counts, and nextCursor if more objects match`,
     inputSchema: {
       type: "object" as const,
       properties: {
-        parentClassName: {
-          type: "string",
-          description: "The class of the parent object",
-        },
-        parentObjectId: {
-          type: "string",
-          description: "The objectId of the parent",
-        },
-        relationKey: {
+        className: {
           type: "string",
-          description: "The name of the relation field",
+          description: "The class to update",
         },
-        targetClassName: {
-          type: "string",
-          description: "The class of objects to remove",
+        where: {
+          type: "object",
+          description: "Query constraints selecting the objects",
         },
-        targetObjectIds: {
+        grants: {
           type: "array",
-          items: { type: "string" },
-          description: "Array of objectIds to remove from the relation",
+          items: {
+            type: "object",
+            properties: {
+              principal: { type: "string" },
+              read: { type: "boolean" },
+              write: { type: "boolean" },
+            },
+            required: ["principal"],
+          },
+          description: "Grant/revoke entries: { principal, read?, write? }",
         },
-      },
-      required: [
-        "parentClassName",
-        "parentObjectId",
-        "relationKey",
-        "targetClassName",
-        "targetObjectIds",
-      ],
-    },
-  },
-
-  // === User Operations ===
-  {
-    name: "query_users",
-    description: `👥 **Query Users**
-
-Queries the _User class with special handling for user-specific fields.
-
-⚠️ Some user fields may require Master Key for access.
-
-Parameters:
-- where: Query constraints (same syntax as query_class)
-- limit: Maximum users to return (default: 100)
-- skip: Number to skip for pagination
-- order: Field to sort by
-- keys: Array of fields to return
-
-Note: Password field is never returned for security.`,
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        where: {
+        replace: {
           type: "object",
-          description: "Query constraints",
-        },
-        limit: {
-          type: "number",
-          description: "Maximum users to return (default: 100)",
+          description: "Complete ACL object to set instead of editing",
         },
-        skip: {
+        maxObjects: {
           type: "number",
-          description: "Number to skip",
+          description: "Maximum objects to update (default: 1000)",
         },
-        order: {
+        cursor: {
           type: "string",
-          description: "Field to sort by",
+          description: "nextCursor from a previous call, to continue",
         },
-        keys: {
-          type: "array",
-          items: { type: "string" },
-          description: "Fields to return",
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return the match count and sample changes without saving",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
         },
       },
-      required: [],
+      required: ["className", "where"],
     },
   },
 
-  // === Role Operations ===
   {
-    name: "get_roles",
-    description: `🔐 **Get All Roles**
+    name: "explain_access",
+    description: `🔒 **Explain Access for a User**
 
-Retrieves all roles defined in the Parse Server.
+Simulates Parse Server's permission checks for one user and answers "can
+this user do <operation> on this class/object?", with the rule that decided.
+Every other tool runs with the Master Key, which skips these checks.
 
-Returns:
-- Array of roles with their names and ACLs
-- Roles are used for access control`,
-    inputSchema: {
-      type: "object" as const,
-      properties: {},
-      required: [],
-    },
-  },
-  {
-    name: "get_role_users",
-    description: `🔐 **Get Users in a Role**
+Evaluates, in order:
+1. Class-level permissions (public, authenticated, user, roles, pointer fields)
+2. The object's ACL (when objectId is given)
+3. protectedFields hidden from this user (for read operations)
+
+Role membership includes roles inherited through parent roles.
 
-Retrieves all users that belong to a specific role.
+⚠️ REQUIRES MASTER KEY
 
 Parameters:
-- roleName: The name of the role
+- user: The user's objectId or username (omit to simulate a logged-out client)
+- className: The class to check
+- objectId: The object to check (optional)
+- operation: find, get, count, create, update, delete or addField
 
 Returns:
-- Array of users in the role`,
+- decision (allow or deny), the layer and rule that decided, the user's roles,
+  each evaluation step and the fields hidden from the user
+
+💡 **TIP**: Cloud Code triggers (beforeFind, beforeSave...) can still reject or
+alter the request after these checks.`,
     inputSchema: {
       type: "object" as const,
       properties: {
-        roleName: {
+        user: {
           type: "string",
-          description: "The name of the role",
+          description:
+            "The user's objectId or username (omit for a logged-out client)",
+        },
+        className: {
+          type: "string",
+          description: "The class to check",
+        },
+        objectId: {
+          type: "string",
+          description: "The object to check (optional)",
+        },
+        operation: {
+          type: "string",
+          enum: [
+            "find",
+            "get",
+            "count",
+            "create",
+            "update",
+            "delete",
+            "addField",
+          ],
+          description: "The operation to check",
         },
       },
-      required: ["roleName"],
+      required: ["className", "operation"],
     },
   },
 
-  // === Cloud Code Execution ===
+  // === Data Exploration & Querying ===
   {
-    name: "run_cloud_function",
-    description: `☁️ **Run Cloud Code Function**
+    name: "get_sample_objects",
+    description: `🔍 **Get Sample Objects from a Class**
 
-⚠️ **WARNING: Cloud functions may MODIFY data or have side effects!**
-🛡️ **ALWAYS ask the user for permission before running cloud functions.**
+Retrieves a few recent objects from a class to understand its actual data structure.
 
-Executes a Cloud Code function defined on the Parse Server.
+This is HIGHLY RECOMMENDED before writing queries because:
+- Schemas may have evolved over time (new fields added, old ones deprecated)
+- Some objects may have optional fields that aren't always present
+- Real data helps understand the actual values and formats used
 
 Parameters:
-- functionName: The name of the cloud function to call
-- params: Optional parameters to pass to the function
+- className: The name of the class to sample
+- limit: Number of objects to retrieve (default: 5, max: 20)
+- includePointers: Whether to include full pointer objects (default: false)
 
 Returns:
-- The result returned by the cloud function
+- Array of sample objects with all their fields
+- Objects are sorted by createdAt (newest first)
 
-💡 **TIP**: You may not know what cloud functions exist. Ask the user or check documentation.`,
+💡 **TIP**: Always call this for classes you're unfamiliar with to see real data examples.`,
     inputSchema: {
       type: "object" as const,
       properties: {
-        functionName: {
+        className: {
           type: "string",
-          description: "The name of the cloud function to call",
+          description: "The name of the Parse class to sample",
         },
-        params: {
-          type: "object",
-          description: "Parameters to pass to the function",
+        limit: {
+          type: "number",
+          description: "Number of objects to retrieve (default: 5, max: 20)",
+        },
+        includePointers: {
+          type: "boolean",
+          description:
+            "Whether to include full pointer objects instead of just references (default: false)",
         },
       },
-      required: ["functionName"],
+      required: ["className"],
     },
   },
-
-  // === Aggregation ===
   {
-    name: "aggregate_class",
-    description: `📊 **Aggregate Data in a Class**
-
-Performs aggregation operations on a Parse class (like MongoDB aggregation pipeline).
+    name: "query_class",
+    description: `🔍 **Query Objects from a Class**
 
-⚠️ REQUIRES MASTER KEY for aggregate operations.
+Performs a query on a Parse class with various filters and options.
 
 Parameters:
-- className: The name of the class to aggregate
-- pipeline: Array of aggregation pipeline stages
+- className: The name of the class to query
+- where: Query constraints as a JSON object (see below for syntax)
+- limit: Maximum objects to return (default: 100, max: 1000)
+- skip: Number of objects to skip for pagination
+- order: Field(s) to sort by. Prefix with "-" for descending (e.g., "-createdAt")
+- include: Array of pointer fields to include full objects for
+- keys: Array of fields to return (omit for all fields)
+- count: If true, also return total count matching query
+- useCursor: If true, page by cursor instead of skip (returns nextCursor)
+- cursor: nextCursor from a previous call to fetch the following page
+- fetchAll: If true, fetch every matching object up to maxObjects
+- maxObjects: Cap for fetchAll (default: 5000, max: 100000)
 
-**Common Pipeline Stages:**
+**Cursor pagination:** skip gets slow on large classes and can skip or repeat
+objects while data changes. With useCursor/fetchAll, results are ordered by
+objectId (or order: "createdAt" / "-createdAt") and each page continues after
+the last object of the previous one. Pass the same className, where and order
+together with the returned nextCursor; nextCursor is absent on the last page.
+
+**Query Constraint Syntax (where parameter):**
 \`\`\`json
-[
-  { "$match": { "status": "active" } },         // Filter documents
-  { "$group": { "_id": "$category", "count": { "$sum": 1 } } },  // Group and count
-  { "$sort": { "count": -1 } },                 // Sort results
-  { "$limit": 10 },                             // Limit results
-  { "$project": { "name": 1, "total": "$count" } }  // Shape output
-]
+{
+  "field": "value",                    // Equals
+  "field": { "$ne": "value" },         // Not equals
+  "field": { "$lt": 10 },              // Less than
+  "field": { "$lte": 10 },             // Less than or equal
+  "field": { "$gt": 10 },              // Greater than
+  "field": { "$gte": 10 },             // Greater than or equal
+  "field": { "$in": ["a", "b"] },      // In array
+  "field": { "$nin": ["a", "b"] },     // Not in array
+  "field": { "$exists": true },        // Field exists
+  "field": { "$regex": "pattern" },    // Regex match
+  "field": { "$regex": "pattern", "$options": "i" },  // Case-insensitive regex
+  "$or": [{ "a": 1 }, { "b": 2 }],     // OR conditions
+  "$and": [{ "a": 1 }, { "b": 2 }],    // AND conditions
+  "pointer": { "__type": "Pointer", "className": "X", "objectId": "abc" }  // Pointer match
+}
 \`\`\`
 
-**Aggregation Operators:**
-- $sum, $avg, $min, $max, $first, $last
-- $push, $addToSet (for arrays)
-
-Returns:
-- Array of aggregated results`,
+💡 **TIP**: Use get_sample_objects first to understand the data structure before writing complex queries.`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the class to aggregate",
+          description: "The name of the Parse class to query",
         },
-        pipeline: {
-          type: "array",
-          description: "Array of aggregation pipeline stages",
+        where: {
+          type: "object",
+          description: "Query constraints as a JSON object",
         },
-      },
-      required: ["className", "pipeline"],
-    },
-  },
-
-  // === Batch Operations ===
-  {
-    name: "batch_create",
-    description: `➕ **Batch Create Multiple Objects**
-
-⚠️ **WARNING: This tool MODIFIES the database with MULTIPLE objects!**
-🛡️ **ALWAYS ask the user for permission before batch creating.**
-
-Creates multiple objects in a single request.
-
-Parameters:
-- className: The name of the class
-- objects: Array of objects to create (max 50)
-
-Returns:
-- Array of created objects with their objectIds`,
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        className: {
+        limit: {
+          type: "number",
+          description: "Maximum objects to return (default: 100, max: 1000)",
+        },
+        skip: {
+          type: "number",
+          description: "Number of objects to skip for pagination",
+        },
+        order: {
           type: "string",
-          description: "The name of the class",
+          description:
+            "Field(s) to sort by. Prefix with '-' for descending. Comma-separate multiple fields.",
         },
-        objects: {
+        include: {
           type: "array",
-          description: "Array of objects to create (max 50)",
+          items: { type: "string" },
+          description:
+            "Array of pointer field names to include full objects for",
+        },
+        keys: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of field names to return (omit for all)",
+        },
+        count: {
+          type: "boolean",
+          description: "If true, also return total count matching query",
+        },
+        useCursor: {
+          type: "boolean",
+          description:
+            "If true, page by cursor instead of skip and return nextCursor (order must be objectId, createdAt or -createdAt)",
+        },
+        cursor: {
+          type: "string",
+          description:
+            "nextCursor returned by a previous call with the same className, where and order",
+        },
+        fetchAll: {
+          type: "boolean",
+          description:
+            "If true, fetch all matching objects in batches up to maxObjects",
+        },
+        maxObjects: {
+          type: "number",
+          description:
+            "Maximum objects for fetchAll (default: 5000, max: 100000)",
         },
       },
-      required: ["className", "objects"],
+      required: ["className"],
     },
   },
   {
-    name: "batch_update",
-    description: `✏️ **Batch Update Multiple Objects**
-
-⚠️ **WARNING: This tool MODIFIES MULTIPLE objects in the database!**
-🛡️ **ALWAYS ask the user for permission before batch updating.**
-⚠️ **Review the updates carefully before executing.**
+    name: "count_objects",
+    description: `📊 **Count Objects in a Class**
 
-Updates multiple objects in a single request.
+Returns the total count of objects matching a query.
 
 Parameters:
-- className: The name of the class
-- updates: Array of { objectId, data } pairs (max 50)
-
-Example:
-\`\`\`json
-{
-  "updates": [
-    { "objectId": "abc123", "data": { "status": "processed" } },
-    { "objectId": "def456", "data": { "status": "processed" } }
-  ]
-}
-\`\`\`
+- className: The name of the class to count
+- where: Optional query constraints (same syntax as query_class)
 
 Returns:
-- Array of update results`,
+- Total count of matching objects
+
+💡 **TIP**: Useful for understanding data volume before running large queries.`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the class",
+          description: "The name of the Parse class to count",
         },
-        updates: {
-          type: "array",
-          description: "Array of { objectId, data } pairs (max 50)",
+        where: {
+          type: "object",
+          description: "Optional query constraints",
         },
       },
-      required: ["className", "updates"],
+      required: ["className"],
     },
   },
   {
-    name: "batch_delete",
-    description: `🗑️ **Batch Delete Multiple Objects**
-
-⚠️ **EXTREME DANGER: This tool PERMANENTLY DELETES MULTIPLE objects!**
-🛡️ **ALWAYS ask for EXPLICIT permission before batch deleting.**
-⚠️ **This action CANNOT be undone!**
-⚠️ **Double-check the objectIds before executing!**
+    name: "get_object_by_id",
+    description: `🔍 **Get a Single Object by ID**
 
-Deletes multiple objects in a single request.
+Retrieves a specific object by its objectId.
 
 Parameters:
 - className: The name of the class
-- objectIds: Array of objectIds to delete (max 50)
+- objectId: The unique objectId of the object
+- include: Array of pointer fields to include full objects for
 
 Returns:
-- Confirmation of deletions`,
+- The complete object with all fields
+
+💡 **TIP**: Use this when you know the exact object you need.`,
     inputSchema: {
       type: "object" as const,
       properties: {
         className: {
           type: "string",
-          description: "The name of the class",
+          description: "The name of the Parse class",
         },
-        objectIds: {
+        objectId: {
+          type: "string",
+          description: "The objectId of the object to retrieve",
+        },
+        include: {
           type: "array",
           items: { type: "string" },
-          description: "Array of objectIds to delete (max 50)",
+          description:
+            "Array of pointer field names to include full objects for",
         },
       },
-      required: ["className", "objectIds"],
+      required: ["className", "objectId"],
     },
   },
-
-  // === Troubleshooting ===
   {
-    name: "validate_pointer",
-    description: `🔍 **Validate a Pointer Reference**
+    name: "get_result_page",
+    description: `📄 **Read More of a Large Result**
 
-Checks if a pointer reference is valid (the target object exists).
+When a tool result exceeds the response size budget, the server returns a
+summary (row count, field stats, first rows) and a resultId instead of the
+full dump. Use this tool to read the rest of that result page by page.
 
 Parameters:
-- className: The target class of the pointer
-- objectId: The objectId referenced by the pointer
+- resultId: The resultId from the summarized response
+- offset: Index of the first row to return (default: 0)
+- limit: Maximum rows to return (default: 50)
+- fields: Only return these fields of each row
+- path: Dot-separated path to a value inside the result (for results without rows)
 
 Returns:
-- Whether the pointer is valid
-- The target object if it exists
+- The requested rows, with total and nextOffset
 
-💡 **TIP**: Use this to troubleshoot broken/orphaned pointers.`,
+💡 **TIP**: Stored results expire after 15 minutes. Combine with format: "table" for the most compact output.`,
     inputSchema: {
       type: "object" as const,
       properties: {
-        className: {
+        resultId: {
           type: "string",
-          description: "The target class of the pointer",
+          description: "The resultId from the summarized response",
         },
-        objectId: {
+        offset: {
+          type: "number",
+          description: "Index of the first row to return (default: 0)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum rows to return (default: 50)",
+        },
+        fields: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only return these fields of each row",
+        },
+        path: {
           type: "string",
-          description: "The objectId referenced by the pointer",
+          description:
+            "Dot-separated path to a value inside the result (e.g. fieldUsage.fields)",
         },
       },
-      required: ["className", "objectId"],
+      required: ["resultId"],
     },
   },
+
+  // === Relation Queries ===
   {
-    name: "find_orphaned_pointers",
-    description: `🔍 **Find Orphaned Pointers in a Class**
+    name: "query_relation",
+    description: `🔗 **Query Relation Field**
 
-Scans a class to find pointers that reference non-existent objects.
+Queries objects in a Relation field of a parent object.
 
-⚠️ This can be slow for large classes. Consider using limit/skip for pagination.
+Parse Relations are many-to-many relationships stored separately from the parent object.
 
 Parameters:
-- className: The class to scan
-- pointerField: The pointer field to check
-- limit: Maximum objects to check (default: 100)
-- skip: Offset for pagination
+- parentClassName: The class name of the parent object
+- parentObjectId: The objectId of the parent object
+- relationKey: The name of the relation field
+- where: Optional additional query constraints on related objects
+- limit: Maximum objects to return (default: 100)
+- skip: Number to skip for pagination
+- order: Field to sort by
 
-Returns:
-- List of objects with orphaned pointers
-- The broken pointer details
+Example: Get all comments related to a post:
+- parentClassName: "Post"
+- parentObjectId: "abc123"
+- relationKey: "comments"
 
-💡 **TIP**: Useful for database cleanup and troubleshooting.`,
+Returns:
+- Array of related objects`,
     inputSchema: {
       type: "object" as const,
       properties: {
-        className: {
+        parentClassName: {
           type: "string",
-          description: "The class to scan",
+          description: "The class name of the parent object",
         },
-        pointerField: {
+        parentObjectId: {
           type: "string",
-          description: "The pointer field to check",
+          description: "The objectId of the parent object",
+        },
+        relationKey: {
+          type: "string",
+          description: "The name of the relation field",
+        },
+        where: {
+          type: "object",
+          description: "Optional additional query constraints",
         },
         limit: {
           type: "number",
-          description: "Maximum objects to check (default: 100)",
+          description: "Maximum objects to return (default: 100)",
         },
         skip: {
           type: "number",
-          description: "Offset for pagination",
+          description: "Number of objects to skip",
         },
-      },
-      required: ["className", "pointerField"],
-    },
-  },
-  {
-    name: "get_class_statistics",
-    description: `📊 **Get Statistics for a Class**
-
-Retrieves useful statistics about a class.
-
-Parameters:
-- className: The class to analyze
-
-Returns:
-- Total object count
-- Date range (oldest and newest objects)
-- Field usage statistics (how many objects have each field)`,
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        className: {
+        order: {
           type: "string",
-          description: "The class to analyze",
+          description: "Field to sort by",
         },
       },
-      required: ["className"],
+      required: ["parentClassName", "parentObjectId", "relationKey"],
     },
   },
 
-  // === Config ===
+  // === Data Modification (with warnings) ===
   {
-    name: "get_config",
-    description: `⚙️ **Get Parse Server Config**
+    name: "create_object",
+    description: `➕ **Create a New Object**
 
-Retrieves the Parse Config values.
+⚠️ **WARNING: This tool MODIFIES the database!**
+🛡️ **ALWAYS ask the user for permission before creating objects.**
 
-Parse Config is a way to store configuration values on the server
-that can be fetched by clients.
+Creates a new object in a Parse class.
 
-Returns:
-- All config key-value pairs`,
-    inputSchema: {
-      type: "object" as const,
-      properties: {},
-      required: [],
+Parameters:
+- className: The name of the class to create the object in
+- data: Object containing the field values to set
+- dryRun: If true, preview the changes (before/after diff, missing pointer targets) without saving anything
+
+For setting Pointers, use this format:
+\`\`\`json
+{
+  "pointerField": {
+    "__type": "Pointer",
+    "className": "TargetClass",
+    "objectId": "targetObjectId"
+  }
+}
+\`\`\`
+
+For setting Files:
+\`\`\`json
+{
+  "fileField": {
+    "__type": "File",
+    "name": "filename.jpg",
+    "url": "https://..."
+  }
+}
+\`\`\`
+
+For setting GeoPoints:
+\`\`\`json
+{
+  "location": {
+    "__type": "GeoPoint",
+    "latitude": 40.7128,
+    "longitude": -74.0060
+  }
+}
+\`\`\`
+
+Returns:
+- The created object with objectId, createdAt, and all fields`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The name of the class to create the object in",
+        },
+        data: {
+          type: "object",
+          description: "The field values for the new object",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+      },
+      required: ["className", "data"],
     },
   },
   {
-    name: "update_config",
-    description: `⚙️ **Update Parse Server Config**
+    name: "update_object",
+    description: `✏️ **Update an Existing Object**
+
+⚠️ **WARNING: This tool MODIFIES the database!**
+🛡️ **ALWAYS ask the user for permission before updating objects.**
+
+Updates an existing object with new field values.
+
+Parameters:
+- className: The name of the class
+- objectId: The objectId of the object to update
+- data: Object containing the field values to update
+- dryRun: If true, preview the changes (before/after diff, missing pointer targets) without saving anything
+
+Special operations in data:
+- To increment a number: { "score": { "__op": "Increment", "amount": 1 } }
+- To add to array: { "tags": { "__op": "Add", "objects": ["new"] } }
+- To add unique to array: { "tags": { "__op": "AddUnique", "objects": ["new"] } }
+- To remove from array: { "tags": { "__op": "Remove", "objects": ["old"] } }
+- To delete a field: { "obsoleteField": { "__op": "Delete" } }
+
+Returns:
+- The updated object
+
+💡 **TIP**: First use get_object_by_id to see current values before updating.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The name of the class",
+        },
+        objectId: {
+          type: "string",
+          description: "The objectId of the object to update",
+        },
+        data: {
+          type: "object",
+          description: "The field values to update",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+      },
+      required: ["className", "objectId", "data"],
+    },
+  },
+  {
+    name: "delete_object",
+    description: `🗑️ **Delete an Object**
+
+⚠️ **DANGER: This tool PERMANENTLY DELETES data!**
+🛡️ **ALWAYS ask the user for explicit permission before deleting.**
+⚠️ **This action cannot be undone!**
+
+Deletes an object from a Parse class.
+
+Parameters:
+- className: The name of the class
+- objectId: The objectId of the object to delete
+- dryRun: If true, preview the changes (before/after diff, missing pointer targets) without saving anything
+- confirmationToken: Token returned by the first call, required to actually run the change
+
+🔐 **Two-phase:** the first call returns a plan and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
+
+Returns:
+- Confirmation of deletion
+
+💡 **TIP**: First use get_object_by_id to verify this is the correct object to delete.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The name of the class",
+        },
+        objectId: {
+          type: "string",
+          description: "The objectId of the object to delete",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["className", "objectId"],
+    },
+  },
+
+  // === Relation Modification ===
+  {
+    name: "add_to_relation",
+    description: `🔗 **Add Objects to a Relation**
+
+⚠️ **WARNING: This tool MODIFIES the database!**
+🛡️ **ALWAYS ask the user for permission before modifying relations.**
+
+Adds one or more objects to a Relation field.
+
+Parameters:
+- parentClassName: The class of the parent object
+- parentObjectId: The objectId of the parent
+- relationKey: The name of the relation field
+- targetClassName: The class of objects to add
+- targetObjectIds: Array of objectIds to add to the relation
+- dryRun: If true, preview the changes (before/after diff, missing pointer targets) without saving anything
+
+Example: Add comments to a post's "comments" relation
+- parentClassName: "Post"
+- parentObjectId: "abc123"
+- relationKey: "comments"
+- targetClassName: "Comment"
+- targetObjectIds: ["comment1", "comment2"]`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        parentClassName: {
+          type: "string",
+          description: "The class of the parent object",
+        },
+        parentObjectId: {
+          type: "string",
+          description: "The objectId of the parent",
+        },
+        relationKey: {
+          type: "string",
+          description: "The name of the relation field",
+        },
+        targetClassName: {
+          type: "string",
+          description: "The class of objects to add",
+        },
+        targetObjectIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of objectIds to add to the relation",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+      },
+      required: [
+        "parentClassName",
+        "parentObjectId",
+        "relationKey",
+        "targetClassName",
+        "targetObjectIds",
+      ],
+    },
+  },
+  {
+    name: "remove_from_relation",
+    description: `🔗 **Remove Objects from a Relation**
+
+⚠️ **WARNING: This tool MODIFIES the database!**
+🛡️ **ALWAYS ask the user for permission before modifying relations.**
+
+Removes one or more objects from a Relation field.
+
+Parameters:
+- parentClassName: The class of the parent object
+- parentObjectId: The objectId of the parent
+- relationKey: The name of the relation field
+- targetClassName: The class of objects to remove
+- targetObjectIds: Array of objectIds to remove from the relation
+- dryRun: If true, preview the changes (before/after diff, missing pointer targets) without saving anything`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        parentClassName: {
+          type: "string",
+          description: "The class of the parent object",
+        },
+        parentObjectId: {
+          type: "string",
+          description: "The objectId of the parent",
+        },
+        relationKey: {
+          type: "string",
+          description: "The name of the relation field",
+        },
+        targetClassName: {
+          type: "string",
+          description: "The class of objects to remove",
+        },
+        targetObjectIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of objectIds to remove from the relation",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+      },
+      required: [
+        "parentClassName",
+        "parentObjectId",
+        "relationKey",
+        "targetClassName",
+        "targetObjectIds",
+      ],
+    },
+  },
+
+  // === User Operations ===
+  {
+    name: "query_users",
+    description: `👥 **Query Users**
+
+Queries the _User class with special handling for user-specific fields.
+
+⚠️ Some user fields may require Master Key for access.
+
+Parameters:
+- where: Query constraints (same syntax as query_class)
+- limit: Maximum users to return (default: 100)
+- skip: Number to skip for pagination
+- order: Field to sort by
+- keys: Array of fields to return
+
+Note: Password field is never returned for security.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        where: {
+          type: "object",
+          description: "Query constraints",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum users to return (default: 100)",
+        },
+        skip: {
+          type: "number",
+          description: "Number to skip",
+        },
+        order: {
+          type: "string",
+          description: "Field to sort by",
+        },
+        keys: {
+          type: "array",
+          items: { type: "string" },
+          description: "Fields to return",
+        },
+      },
+      required: [],
+    },
+  },
+
+  {
+    name: "get_user",
+    description: `👥 **Get a User Account**
+
+Looks up one user by objectId, username or email and shows their account
+status: email verification, login providers, disabled flag, roles and active
+sessions. Session tokens and auth data are never returned.
+
+Parameters:
+- user: objectId, username or email
+
+Returns:
+- The user, their roles (direct and inherited) and active session count`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description: "objectId, username or email",
+        },
+      },
+      required: ["user"],
+    },
+  },
+  {
+    name: "update_user",
+    description: `👥 **Update a User Account**
+
+⚠️ **WARNING: This tool MODIFIES user data!**
+🛡️ **ALWAYS ask the user for permission before updating accounts.**
+
+Updates fields of a user with the Master Key, including protected ones such
+as emailVerified, email and username. Use request_password_reset instead of
+setting passwords.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- user: objectId, username or email
+- data: Fields to update, e.g. { "emailVerified": true }
+- dryRun: If true, return a before/after diff without saving anything
+
+Returns:
+- The updated user`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description: "objectId, username or email",
+        },
+        data: {
+          type: "object",
+          description: "Fields to update",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after diff without saving anything",
+        },
+      },
+      required: ["user", "data"],
+    },
+  },
+  {
+    name: "set_user_disabled",
+    description: `👥 **Disable or Re-enable a User Account**
+
+⚠️ **WARNING: This tool MODIFIES user access!**
+🛡️ **ALWAYS ask the user for permission before disabling accounts.**
+
+Sets the user's "disabled" field and, when disabling, always revokes all of
+their sessions so they are logged out everywhere.
+
+⚠️ Parse Server doesn't block logins by itself: a beforeLogin trigger must
+reject users with disabled: true.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- user: objectId, username or email
+- disabled: true to disable, false to re-enable
+- dryRun: If true, return what would change without saving anything
+- confirmationToken: Token returned by the first call, required to actually run the change
+
+🔐 **Two-phase:** the first call returns a plan (including how many sessions would be revoked) and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token. Revoked sessions can't be restored.
+
+Returns:
+- The new status and number of revoked sessions`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description: "objectId, username or email",
+        },
+        disabled: {
+          type: "boolean",
+          description: "true to disable, false to re-enable",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return what would change without saving anything",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["user", "disabled"],
+    },
+  },
+  {
+    name: "request_password_reset",
+    description: `👥 **Send a Password Reset Email**
+
+⚠️ **WARNING: This tool sends an email to the user!**
+
+Triggers Parse Server's password reset flow for the user's email address.
+Requires an email adapter on the server.
+
+Parameters:
+- user: objectId, username or email`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description: "objectId, username or email",
+        },
+      },
+      required: ["user"],
+    },
+  },
+  {
+    name: "request_email_verification",
+    description: `👥 **Resend the Verification Email**
+
+⚠️ **WARNING: This tool sends an email to the user!**
+
+Triggers Parse Server's email verification flow again. Fails if the email
+is already verified. Requires verifyUserEmails and an email adapter on the
+server.
+
+Parameters:
+- user: objectId, username or email`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description: "objectId, username or email",
+        },
+      },
+      required: ["user"],
+    },
+  },
+  {
+    name: "list_user_sessions",
+    description: `👥 **List a User's Sessions**
+
+Lists the user's _Session objects: where and when they were created and when
+they expire. Session tokens are never returned.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- user: objectId, username or email
+- includeExpired: Also list expired sessions (default: false)`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description: "objectId, username or email",
+        },
+        includeExpired: {
+          type: "boolean",
+          description: "Also list expired sessions (default: false)",
+        },
+      },
+      required: ["user"],
+    },
+  },
+  {
+    name: "revoke_user_sessions",
+    description: `👥 **Revoke a User's Sessions (Force Logout)**
+
+⚠️ **WARNING: This tool logs the user out!**
+🛡️ **ALWAYS ask the user for permission before revoking sessions.**
+
+Deletes the user's sessions, so every device has to log in again.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- user: objectId, username or email
+- sessionIds: Only revoke these sessions (default: all of the user's sessions)
+- dryRun: If true, list the sessions that would be revoked
+- confirmationToken: Token returned by the first call, required to actually revoke
+
+🔐 **Two-phase:** the first call returns the sessions that would be revoked and a confirmationToken. Nothing is revoked until the tool is called again with the same arguments and that token. Revoked sessions can't be restored.
+
+Returns:
+- The revoked sessions`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description: "objectId, username or email",
+        },
+        sessionIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only revoke these sessions (default: all)",
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, list the sessions that would be revoked",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["user"],
+    },
+  },
+
+  // === Role Operations ===
+  {
+    name: "get_roles",
+    description: `🔐 **Get All Roles**
+
+Retrieves all roles defined in the Parse Server.
+
+Returns:
+- Array of roles with their names and ACLs
+- Roles are used for access control`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: "get_role_users",
+    description: `🔐 **Get Users in a Role**
+
+Retrieves all users that belong to a specific role, including the members
+of its child roles, who inherit it.
+
+Parameters:
+- roleName: The name of the role
+
+Returns:
+- Array of users in the role, each with membership "direct" or "inherited"
+  (and "via", the child role it was inherited through)`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        roleName: {
+          type: "string",
+          description: "The name of the role",
+        },
+      },
+      required: ["roleName"],
+    },
+  },
+
+  {
+    name: "get_role_tree",
+    description: `🔐 **Get the Role Hierarchy**
+
+Shows the full role inheritance graph. Members of a child role inherit
+every permission of its parent roles.
+
+Parameters:
+- user: Only show this user's effective roles (objectId or username)
+
+Returns:
+- roles: Each role with its parents, children, direct and effective user counts
+- tree: Nested hierarchy starting from the top-level roles
+- userRoles: Each user's direct and inherited roles
+- cycles: Role cycles (a role that inherits from itself)
+- emptyRoles: Roles with no users, directly or through child roles`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description:
+            "Only show this user's effective roles (objectId or username)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "create_role",
+    description: `🔐 **Create a Role**
+
+⚠️ **WARNING: This tool MODIFIES access control!**
+🛡️ **ALWAYS ask the user for permission before creating roles.**
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- name: Role name (letters, numbers, spaces, - and _)
+- users: Users to add (objectIds or usernames)
+- childRoles: Roles whose members should inherit this role
+- acl: ACL of the role object (default: public read, Master Key write)
+
+Returns:
+- The created role`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: "Role name",
+        },
+        users: {
+          type: "array",
+          items: { type: "string" },
+          description: "Users to add (objectIds or usernames)",
+        },
+        childRoles: {
+          type: "array",
+          items: { type: "string" },
+          description: "Roles whose members should inherit this role",
+        },
+        acl: {
+          type: "object",
+          description:
+            "ACL of the role object (default: public read, Master Key write)",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "delete_role",
+    description: `🔐 **Delete a Role**
+
+⚠️ **WARNING: This tool PERMANENTLY DELETES a role!**
+🛡️ **ALWAYS ask the user for explicit permission before deleting.**
+
+Members lose every permission granted through the role. ACLs and
+class-level permissions that mention the role are left in place.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- name: The role to delete
+- dryRun: If true, return the users and roles affected without deleting
+- confirmationToken: Token returned by the first call, required to actually delete
+
+🔐 **Two-phase:** the first call returns a plan and a confirmationToken. Nothing is deleted until the tool is called again with the same arguments and that token.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: "The role to delete",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return the users and roles affected without deleting",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "add_users_to_role",
+    description: `🔐 **Add Users to a Role**
+
+⚠️ **WARNING: This tool MODIFIES access control!**
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- roleName: The role
+- users: Users to add (objectIds or usernames)
+
+Returns:
+- The users added`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        roleName: {
+          type: "string",
+          description: "The role",
+        },
+        users: {
+          type: "array",
+          items: { type: "string" },
+          description: "Users to add (objectIds or usernames)",
+        },
+      },
+      required: ["roleName", "users"],
+    },
+  },
+  {
+    name: "remove_users_from_role",
+    description: `🔐 **Remove Users from a Role**
+
+⚠️ **WARNING: This tool MODIFIES access control!**
+
+Users keep the role if they are also members of one of its child roles.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- roleName: The role
+- users: Users to remove (objectIds or usernames)
+
+Returns:
+- The users removed`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        roleName: {
+          type: "string",
+          description: "The role",
+        },
+        users: {
+          type: "array",
+          items: { type: "string" },
+          description: "Users to remove (objectIds or usernames)",
+        },
+      },
+      required: ["roleName", "users"],
+    },
+  },
+  {
+    name: "add_child_role",
+    description: `🔐 **Add a Child Role**
+
+⚠️ **WARNING: This tool MODIFIES access control!**
+
+Makes every member of childRoleName inherit the permissions of roleName.
+For example, add_child_role(roleName: "Moderators", childRoleName: "Admins")
+gives every admin moderator access. Changes that would create a cycle are
+rejected.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- roleName: The parent role whose permissions are inherited
+- childRoleName: The role whose members inherit them`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        roleName: {
+          type: "string",
+          description: "The parent role whose permissions are inherited",
+        },
+        childRoleName: {
+          type: "string",
+          description: "The role whose members inherit them",
+        },
+      },
+      required: ["roleName", "childRoleName"],
+    },
+  },
+  {
+    name: "remove_child_role",
+    description: `🔐 **Remove a Child Role**
+
+⚠️ **WARNING: This tool MODIFIES access control!**
+
+Members of childRoleName stop inheriting the permissions of roleName.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- roleName: The parent role
+- childRoleName: The child role to remove`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        roleName: {
+          type: "string",
+          description: "The parent role",
+        },
+        childRoleName: {
+          type: "string",
+          description: "The child role to remove",
+        },
+      },
+      required: ["roleName", "childRoleName"],
+    },
+  },
+
+  // === Sessions & Installations ===
+  {
+    name: "query_sessions",
+    description: `🔑 **Query Sessions**
+
+Queries the _Session class with the user resolved and the expiry shown.
+Session tokens are never returned.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- user: Only sessions of this user (objectId, username or email)
+- where: Additional query constraints (same syntax as query_class)
+- includeExpired: Also return expired sessions (default: false)
+- limit: Maximum sessions to return (default: 100, max: 1000)
+
+Returns:
+- Sessions with user, creation and expiry dates, install ID and how they were created
+- Counts of matching, active and expired sessions
+
+💡 **TIP**: Use revoke_user_sessions to log a user out.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description:
+            "Only sessions of this user (objectId, username or email)",
+        },
+        where: {
+          type: "object",
+          description: "Additional query constraints",
+        },
+        includeExpired: {
+          type: "boolean",
+          description: "Also return expired sessions (default: false)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum sessions to return (default: 100)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "query_installations",
+    description: `📱 **Query Installations**
+
+Queries the _Installation class (devices registered for push) and reports
+what is wrong with them.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- user: Only installations linked to this user (objectId, username or email)
+- userField: Pointer field linking installations to users (default: "user")
+- deviceType: Only this device type (ios, android, web...)
+- channel: Only installations subscribed to this channel
+- where: Additional query constraints (same syntax as query_class)
+- limit: Maximum installations to return (default: 50, max: 1000)
+- maxObjects: Maximum installations scanned for the summary (default: 5000)
+- staleDays: Installations not updated for this many days are stale (default: 90)
+
+Returns:
+- Installations with device type, channels, app version, masked device token and user
+- Counts by channel, app version and device type
+- Issues: stale installations, several installations sharing a device token
+  and push-capable devices without a device token
+
+💡 **TIP**: For "why isn't this device getting pushes?", query by user and check
+the issues, channels and deviceToken.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        user: {
+          type: "string",
+          description:
+            "Only installations linked to this user (objectId, username or email)",
+        },
+        userField: {
+          type: "string",
+          description:
+            'Pointer field linking installations to users (default: "user")',
+        },
+        deviceType: {
+          type: "string",
+          description: "Only this device type",
+        },
+        channel: {
+          type: "string",
+          description: "Only installations subscribed to this channel",
+        },
+        where: {
+          type: "object",
+          description: "Additional query constraints",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum installations to return (default: 50)",
+        },
+        maxObjects: {
+          type: "number",
+          description:
+            "Maximum installations scanned for the summary (default: 5000)",
+        },
+        staleDays: {
+          type: "number",
+          description:
+            "Installations not updated for this many days are stale (default: 90)",
+        },
+      },
+      required: [],
+    },
+  },
+
+  // === Push ===
+  {
+    name: "send_push",
+    description: `📣 **Send a Push Notification**
+
+⚠️ **WARNING: This tool sends notifications to real devices!**
+🛡️ **ALWAYS ask the user for explicit permission before sending.**
+
+Sends a push through Parse Server to the installations matching channels
+or a where query.
+
+⚠️ REQUIRES MASTER KEY and a push adapter on the server
+
+Parameters:
+- channels: Send to installations subscribed to any of these channels
+- where: _Installation query constraints selecting the audience (instead of channels)
+- allInstallations: Set to true to send to every installation; required when
+  neither channels nor where narrow the audience
+- data: Push payload, e.g. { "alert": "Test", "badge": "Increment" }
+- push_time: ISO date to schedule the push (requires scheduledPush on the server)
+- expiration_time: ISO date after which the push is no longer delivered
+- confirmationToken: Token returned by the preview call, required to send
+
+🔐 **Always previewed:** the first call returns the number of installations the
+push would reach, by device type, and a confirmationToken. Nothing is sent
+until the tool is called again with the same arguments and that token. This
+preview can't be turned off.
+
+💡 **TIP**: Target a single test device with where: { "installationId": "..." }
+and check delivery with get_push_status.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        channels: {
+          type: "array",
+          items: { type: "string" },
+          description: "Channels to send to",
+        },
+        where: {
+          type: "object",
+          description: "_Installation query constraints selecting the audience",
+        },
+        allInstallations: {
+          type: "boolean",
+          description:
+            "Send to every installation. Required when channels and where are missing or empty.",
+        },
+        data: {
+          type: "object",
+          description: "Push payload (alert, badge, sound, title...)",
+        },
+        push_time: {
+          type: "string",
+          description: "ISO date to schedule the push",
+        },
+        expiration_time: {
+          type: "string",
+          description: "ISO date after which the push is no longer delivered",
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, only return the audience preview",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the preview call. Omit it to get the preview and a token.",
+        },
+      },
+      required: ["data"],
+    },
+  },
+  {
+    name: "get_push_status",
+    description: `📣 **Get Push Status**
+
+Reads _PushStatus to report how recent pushes went.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- pushStatusId: Only this push (objectId of its _PushStatus)
+- limit: Number of recent pushes (default: 10, max: 100)
+
+Returns:
+- Status (pending, scheduled, running, succeeded, failed), sent and failed
+  counts per device type, the audience query, payload and error message`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        pushStatusId: {
+          type: "string",
+          description: "Only this push (objectId of its _PushStatus)",
+        },
+        limit: {
+          type: "number",
+          description: "Number of recent pushes (default: 10)",
+        },
+      },
+      required: [],
+    },
+  },
+
+  // === Cloud Code Execution ===
+  {
+    name: "run_cloud_function",
+    description: `☁️ **Run Cloud Code Function**
+
+⚠️ **WARNING: Cloud functions may MODIFY data or have side effects!**
+🛡️ **ALWAYS ask the user for permission before running cloud functions.**
+
+Executes a Cloud Code function defined on the Parse Server.
+
+Parameters:
+- functionName: The name of the cloud function to call
+- params: Optional parameters to pass to the function
+
+Returns:
+- The result returned by the cloud function
+
+💡 **TIP**: Use list_cloud_functions to discover jobs, webhooks and functions called before. Functions defined in Cloud Code aren't listed: ask the user or check the source.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        functionName: {
+          type: "string",
+          description: "The name of the cloud function to call",
+        },
+        params: {
+          type: "object",
+          description: "Parameters to pass to the function",
+        },
+      },
+      required: ["functionName"],
+    },
+  },
+  {
+    name: "list_cloud_functions",
+    description: `☁️ **List Cloud Functions and Jobs**
+
+Discovers what Cloud Code the server exposes:
+- Background jobs defined with Parse.Cloud.job, and their schedules
+- Webhook functions and triggers registered through /hooks
+- Functions already called successfully through run_cloud_function (from the audit log)
+
+⚠️ REQUIRES MASTER KEY
+
+Functions defined with Parse.Cloud.define are not listed by the Parse
+Server API; only the sources above can be discovered.
+
+Returns:
+- jobs, scheduledJobs, webhookFunctions, webhookTriggers, recentlyCalled`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: "run_job",
+    description: `☁️ **Start a Background Job**
+
+⚠️ **WARNING: Jobs may MODIFY data or have side effects!**
+🛡️ **ALWAYS ask the user for permission before running jobs.**
+
+Starts a Cloud Code job (Parse.Cloud.job) and returns immediately with the
+id of its _JobStatus; the job keeps running on the server.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- jobName: The name of the job (see list_cloud_functions)
+- params: Optional parameters passed to the job
+
+Returns:
+- jobStatusId to poll with get_job_status`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        jobName: {
+          type: "string",
+          description: "The name of the job",
+        },
+        params: {
+          type: "object",
+          description: "Parameters to pass to the job",
+        },
+      },
+      required: ["jobName"],
+    },
+  },
+  {
+    name: "get_job_status",
+    description: `☁️ **Get Job Status**
+
+Reads _JobStatus: whether a job is running, succeeded or failed, its last
+progress message and how long it ran.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- jobStatusId: The id returned by run_job
+- jobName: Without jobStatusId, list the recent runs of this job
+- limit: Number of recent runs (default: 10, max: 100)
+
+Returns:
+- For each run: status, message, params, startedAt, finishedAt, durationMs
+
+💡 **TIP**: Poll with jobStatusId every few seconds until status is "succeeded" or "failed".`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        jobStatusId: {
+          type: "string",
+          description: "The id returned by run_job",
+        },
+        jobName: {
+          type: "string",
+          description: "List the recent runs of this job",
+        },
+        limit: {
+          type: "number",
+          description: "Number of recent runs (default: 10)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "list_hooks",
+    description: `🪝 **List Webhooks**
+
+Lists the webhook functions and triggers registered through the Parse Hooks API.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- diagnose: If true, also check each webhook (default: false):
+  - URLs that don't respond or answer with a server error
+  - Triggers on classes missing from the schema
+
+Returns:
+- functions: { functionName, url }
+- triggers: { className, triggerName, url }
+- issues (with diagnose): severity, hook and the problem found`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        diagnose: {
+          type: "boolean",
+          description: "If true, check URLs and trigger classes",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "create_function_hook",
+    description: `🪝 **Create a Function Webhook**
+
+⚠️ **WARNING: This tool changes what a cloud function runs!**
+🛡️ **ALWAYS ask the user for permission before registering webhooks.**
+
+Registers a URL that Parse Server calls (POST) when the cloud function runs.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- functionName: Name callers use with run_cloud_function
+- url: HTTPS endpoint of the webhook
+
+Returns:
+- The registered webhook`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        functionName: {
+          type: "string",
+          description: "Name of the cloud function",
+        },
+        url: {
+          type: "string",
+          description: "URL of the webhook",
+        },
+      },
+      required: ["functionName", "url"],
+    },
+  },
+  {
+    name: "create_trigger_hook",
+    description: `🪝 **Create a Trigger Webhook**
+
+⚠️ **WARNING: Triggers run on every matching save, delete or find!**
+🛡️ **ALWAYS ask the user for permission before registering webhooks.**
+
+Registers a URL that Parse Server calls (POST) on a class trigger.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- className: The class the trigger runs on
+- triggerName: beforeSave, afterSave, beforeDelete, afterDelete, beforeFind or afterFind
+- url: HTTPS endpoint of the webhook
+
+Returns:
+- The registered webhook`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The class the trigger runs on",
+        },
+        triggerName: {
+          type: "string",
+          enum: [
+            "beforeSave",
+            "afterSave",
+            "beforeDelete",
+            "afterDelete",
+            "beforeFind",
+            "afterFind",
+          ],
+          description: "The trigger",
+        },
+        url: {
+          type: "string",
+          description: "URL of the webhook",
+        },
+      },
+      required: ["className", "triggerName", "url"],
+    },
+  },
+  {
+    name: "update_hook",
+    description: `🪝 **Update a Webhook URL**
+
+⚠️ **WARNING: This tool changes where a function or trigger is sent!**
+🛡️ **ALWAYS ask the user for permission before changing webhooks.**
+
+Points an existing function or trigger webhook at a new URL.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- functionName: The function webhook to update, or
+- className + triggerName: The trigger webhook to update
+- url: The new URL
+- confirmationToken: Token returned by the first call, required to actually run the change
+
+🔐 **Two-phase:** the first call returns a plan (the current URL and the new one) and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
+
+Returns:
+- The webhook before and after the change`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        functionName: {
+          type: "string",
+          description: "Function webhook to update",
+        },
+        className: {
+          type: "string",
+          description: "Class of the trigger webhook to update",
+        },
+        triggerName: {
+          type: "string",
+          description: "Trigger of the trigger webhook to update",
+        },
+        url: {
+          type: "string",
+          description: "The new URL",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["url"],
+    },
+  },
+  {
+    name: "delete_hook",
+    description: `🪝 **Delete a Webhook**
+
+⚠️ **WARNING: This tool REMOVES a webhook!**
+🛡️ **ALWAYS ask the user for permission before deleting webhooks.**
+
+Unregisters a function or trigger webhook. Calls to the function (or the
+trigger) stop reaching the URL.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- functionName: The function webhook to delete, or
+- className + triggerName: The trigger webhook to delete
+- confirmationToken: Token returned by the first call, required to actually delete
+
+🔐 **Two-phase:** the first call returns a plan and a confirmationToken. Nothing is deleted until the tool is called again with the same arguments and that token.
+
+Returns:
+- The deleted webhook (to recreate it if needed)`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        functionName: {
+          type: "string",
+          description: "Function webhook to delete",
+        },
+        className: {
+          type: "string",
+          description: "Class of the trigger webhook to delete",
+        },
+        triggerName: {
+          type: "string",
+          description: "Trigger of the trigger webhook to delete",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: [],
+    },
+  },
+
+  // === Aggregation ===
+  {
+    name: "aggregate_class",
+    description: `📊 **Aggregate Data in a Class**
+
+Performs aggregation operations on a Parse class (like MongoDB aggregation pipeline).
+
+⚠️ REQUIRES MASTER KEY for aggregate operations.
+
+Parameters:
+- className: The name of the class to aggregate
+- pipeline: Array of aggregation pipeline stages
+
+**Common Pipeline Stages:**
+\`\`\`json
+[
+  { "$match": { "status": "active" } },         // Filter documents
+  { "$group": { "_id": "$category", "count": { "$sum": 1 } } },  // Group and count
+  { "$sort": { "count": -1 } },                 // Sort results
+  { "$limit": 10 },                             // Limit results
+  { "$project": { "name": 1, "total": "$count" } }  // Shape output
+]
+\`\`\`
+
+**Aggregation Operators:**
+- $sum, $avg, $min, $max, $first, $last
+- $push, $addToSet (for arrays)
+
+Returns:
+- Array of aggregated results`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The name of the class to aggregate",
+        },
+        pipeline: {
+          type: "array",
+          description: "Array of aggregation pipeline stages",
+        },
+      },
+      required: ["className", "pipeline"],
+    },
+  },
+
+  // === Batch Operations ===
+  {
+    name: "batch_create",
+    description: `➕ **Batch Create Multiple Objects**
+
+⚠️ **WARNING: This tool MODIFIES the database with MULTIPLE objects!**
+🛡️ **ALWAYS ask the user for permission before batch creating.**
+
+Creates multiple objects in a single request.
+
+Parameters:
+- className: The name of the class
+- objects: Array of objects to create (max 50)
+- dryRun: If true, preview the changes (before/after diff, missing pointer targets) without saving anything
+
+Returns:
+- Array of created objects with their objectIds`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The name of the class",
+        },
+        objects: {
+          type: "array",
+          description: "Array of objects to create (max 50)",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+      },
+      required: ["className", "objects"],
+    },
+  },
+  {
+    name: "batch_update",
+    description: `✏️ **Batch Update Multiple Objects**
+
+⚠️ **WARNING: This tool MODIFIES MULTIPLE objects in the database!**
+🛡️ **ALWAYS ask the user for permission before batch updating.**
+⚠️ **Review the updates carefully before executing.**
+
+Updates multiple objects in a single request.
+
+Parameters:
+- className: The name of the class
+- updates: Array of { objectId, data } pairs (max 50)
+- dryRun: If true, preview the changes (before/after diff, missing pointer targets) without saving anything
+- confirmationToken: Token returned by the first call, required to actually run the change
+
+Example:
+\`\`\`json
+{
+  "updates": [
+    { "objectId": "abc123", "data": { "status": "processed" } },
+    { "objectId": "def456", "data": { "status": "processed" } }
+  ]
+}
+\`\`\`
+
+🔐 **Two-phase:** the first call returns a plan and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
+
+Returns:
+- Array of update results`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The name of the class",
+        },
+        updates: {
+          type: "array",
+          description: "Array of { objectId, data } pairs (max 50)",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["className", "updates"],
+    },
+  },
+  {
+    name: "batch_delete",
+    description: `🗑️ **Batch Delete Multiple Objects**
+
+⚠️ **EXTREME DANGER: This tool PERMANENTLY DELETES MULTIPLE objects!**
+🛡️ **ALWAYS ask for EXPLICIT permission before batch deleting.**
+⚠️ **This action CANNOT be undone!**
+⚠️ **Double-check the objectIds before executing!**
+
+Deletes multiple objects in a single request.
+
+Parameters:
+- className: The name of the class
+- objectIds: Array of objectIds to delete (max 50)
+- dryRun: If true, preview the changes (before/after diff, missing pointer targets) without saving anything
+- confirmationToken: Token returned by the first call, required to actually run the change
+
+🔐 **Two-phase:** the first call returns a plan and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
+
+Returns:
+- Confirmation of deletions`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The name of the class",
+        },
+        objectIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of objectIds to delete (max 50)",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["className", "objectIds"],
+    },
+  },
+
+  // === Export & Import ===
+  {
+    name: "export_query",
+    description: `📤 **Export Query Results**
+
+Exports every object matching a query to CSV, NDJSON or JSON. Objects are
+fetched with cursor pagination, so exports are not limited to 1000 rows.
+
+The output is written to a file inside the export directory (MCP_EXPORT_DIR),
+or published as a \`parse://exports/{id}\` resource that clients can read.
+
+Parameters:
+- className, where, order, include, keys: Same as query_class
+  (order must be objectId, createdAt or -createdAt)
+- exportFormat: "csv" (default), "ndjson" or "json"
+- flatten: How Pointers, Dates, GeoPoints and Files are written:
+  - "simple" (default for CSV): Pointer → objectId, Date → ISO string,
+    GeoPoint → "lat,lng", File → url
+  - "expanded": one column per part (owner.className, owner.objectId,
+    location.latitude, location.longitude, photo.name, photo.url)
+  - "raw" (default for NDJSON/JSON): Parse JSON as stored
+- outputPath: File path relative to the export directory. Omit to publish a resource.
+- maxObjects: Maximum objects to export (default and max: 100000)
+- cursor: nextCursor from a truncated export to continue where it stopped
+
+Returns:
+- Row count, columns (CSV), file path or resource URI
+
+💡 **TIP**: Use count_objects first to check how many objects will be exported.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The name of the Parse class to export",
+        },
+        where: {
+          type: "object",
+          description: "Query constraints as a JSON object",
+        },
+        order: {
+          type: "string",
+          enum: ["objectId", "createdAt", "-createdAt"],
+          description:
+            "Sort order: objectId (default), createdAt or -createdAt",
+        },
+        include: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Array of pointer field names to include full objects for",
+        },
+        keys: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of field names to export (omit for all)",
+        },
+        exportFormat: {
+          type: "string",
+          enum: ["csv", "ndjson", "json"],
+          description: "Output file format (default: csv)",
+        },
+        flatten: {
+          type: "string",
+          enum: ["simple", "expanded", "raw"],
+          description:
+            "How Pointers, Dates, GeoPoints and Files are written (default: simple for CSV, raw otherwise)",
+        },
+        outputPath: {
+          type: "string",
+          description:
+            "File path relative to the export directory. Omit to publish a parse://exports/{id} resource.",
+        },
+        maxObjects: {
+          type: "number",
+          description: "Maximum objects to export (default and max: 100000)",
+        },
+        cursor: {
+          type: "string",
+          description: "nextCursor from a truncated export to continue it",
+        },
+      },
+      required: ["className"],
+    },
+  },
+
+  {
+    name: "import_data",
+    description: `📥 **Import Data from CSV or NDJSON**
+
+⚠️ **WARNING: This tool MODIFIES the database!**
+🛡️ **ALWAYS ask the user for permission before importing data.**
+
+Reads rows from a CSV or NDJSON file (inside MCP_IMPORT_DIR) or from inline
+text and creates or updates objects in a class.
+
+Values are coerced to the field types of the class schema:
+- Number, Boolean ("true"/"false", "1"/"0", "yes"/"no"), Date (any parseable date)
+- Pointer (objectId of the schema's target class, or a Pointer object)
+- GeoPoint ("lat,lng" or {latitude, longitude}), File (url), Array/Object (JSON)
+- Dotted columns written by export_query with flatten "expanded"
+  (owner.objectId, location.latitude, photo.url...) are regrouped
+
+Writes are sent in batches of 50. With upsertKey, rows whose key matches an
+existing object update it instead of creating a new one.
+
+Parameters:
+- className: The class to import into
+- filePath: File path relative to the import directory
+- content: Inline CSV/NDJSON text (instead of filePath)
+- inputFormat: "csv" or "ndjson" (default: from the file extension, else csv)
+- mapping: Object mapping source columns to field names (null skips a column)
+- upsertKey: Field used to match existing objects (e.g. "email" or "objectId")
+- startRow: Index of the first data row to import (from a previous checkpoint)
+- maxRows: Maximum rows to process in this call (default: 1000, max: 10000)
+- stopOnError: If true, stop after the first batch with an error
+- dryRun: If true, coerce and validate every row without saving anything
+
+Returns:
+- Created/updated/error counts, a per-row report and a checkpoint to resume from
+
+💡 **TIP**: Run with dryRun: true first and fix the reported rows.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The class to import into",
+        },
+        filePath: {
+          type: "string",
+          description: "File path relative to the import directory",
+        },
+        content: {
+          type: "string",
+          description: "Inline CSV or NDJSON text (instead of filePath)",
+        },
+        inputFormat: {
+          type: "string",
+          enum: ["csv", "ndjson"],
+          description:
+            "Input format (default: from the file extension, else csv)",
+        },
+        mapping: {
+          type: "object",
+          description:
+            "Source column → field name. Map a column to null to skip it.",
+        },
+        upsertKey: {
+          type: "string",
+          description:
+            "Field used to match existing objects; matching rows are updated",
+        },
+        startRow: {
+          type: "number",
+          description:
+            "Index of the first data row to import (checkpoint.startRow)",
+        },
+        maxRows: {
+          type: "number",
+          description:
+            "Maximum rows to process in this call (default: 1000, max: 10000)",
+        },
+        stopOnError: {
+          type: "boolean",
+          description: "If true, stop after the first batch with an error",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, validate and coerce every row without saving anything",
+        },
+      },
+      required: ["className"],
+    },
+  },
+
+  // === Files ===
+  {
+    name: "upload_file",
+    description: `📎 **Upload a File**
+
+⚠️ **WARNING: This tool STORES a new file on the server!**
+
+Uploads a file through Parse Server's file adapter and returns the File
+reference to set on a File field with create_object or update_object.
+
+Parameters:
+- name: File name (Parse Server adds a unique prefix)
+- path: Path of a local file inside the imports directory (MCP_IMPORT_DIR)
+- base64: File content as base64 (instead of path)
+- contentType: MIME type, e.g. "image/png" (default: guessed by the server)
+
+Returns:
+- { __type: "File", name, url } plus the size in bytes`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: "File name",
+        },
+        path: {
+          type: "string",
+          description: "Path of a local file inside the imports directory",
+        },
+        base64: {
+          type: "string",
+          description: "File content as base64",
+        },
+        contentType: {
+          type: "string",
+          description: "MIME type",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "get_file_info",
+    description: `📎 **Get File Info**
+
+Checks a file: whether its URL is reachable, its size and content type.
+
+Identify the file by one of:
+- url: The file URL, on the Parse Server or the configured files host
+- name: The file name as stored by Parse Server
+- className + objectId + fieldName: The File field of an object
+
+Returns:
+- name, url, reachable, HTTP status, size and content type`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        url: {
+          type: "string",
+          description: "The file URL, on the Parse Server or the files host",
+        },
+        name: {
+          type: "string",
+          description: "The file name as stored by Parse Server",
+        },
+        className: {
+          type: "string",
+          description: "Class of the object holding the file",
+        },
+        objectId: {
+          type: "string",
+          description: "objectId of the object holding the file",
+        },
+        fieldName: {
+          type: "string",
+          description: "File field of the object",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "download_file",
+    description: `📎 **Download a File**
+
+Downloads a file and publishes it as a parse://files/{id} resource, as text
+for text-like content types or base64 otherwise. The content is also
+included in the result when it fits under MCP_MAX_STRING_LENGTH; larger
+files are read from the resource.
+
+Identify the file like get_file_info (url, name, or className + objectId + fieldName).
+
+Parameters:
+- encoding: "auto" (default), "text" or "base64"
+- maxBytes: Refuse files larger than this (default: 1 MB, max: 10 MB)
+
+Returns:
+- The resource URI, content type, size and, for small files, the content`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        url: {
+          type: "string",
+          description: "The file URL, on the Parse Server or the files host",
+        },
+        name: {
+          type: "string",
+          description: "The file name as stored by Parse Server",
+        },
+        className: {
+          type: "string",
+          description: "Class of the object holding the file",
+        },
+        objectId: {
+          type: "string",
+          description: "objectId of the object holding the file",
+        },
+        fieldName: {
+          type: "string",
+          description: "File field of the object",
+        },
+        encoding: {
+          type: "string",
+          enum: ["auto", "text", "base64"],
+          description: 'How to return the content (default: "auto")',
+        },
+        maxBytes: {
+          type: "number",
+          description: "Refuse files larger than this (default: 1048576)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "find_orphaned_files",
+    description: `📎 **Find Broken File References**
+
+Scans the File fields of one or every class and checks that each file URL
+still resolves. Lists the objects whose files are missing (for example
+deleted from storage or written by another server).
+
+⚠️ REQUIRES MASTER KEY (to read the schemas)
+
+Parameters:
+- className: Only scan this class (default: every class with File fields)
+- maxObjects: Maximum objects scanned per class (default: 5000, max: 100000)
+
+Returns:
+- Number of objects scanned and files checked
+- broken: className, objectId, field, file name, URL and HTTP status
+
+💡 **TIP**: Only the first 1000 distinct URLs are checked per call.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "Only scan this class",
+        },
+        maxObjects: {
+          type: "number",
+          description: "Maximum objects scanned per class (default: 5000)",
+        },
+      },
+      required: [],
+    },
+  },
+
+  // === Troubleshooting ===
+  {
+    name: "validate_pointer",
+    description: `🔍 **Validate a Pointer Reference**
+
+Checks if a pointer reference is valid (the target object exists).
+
+Parameters:
+- className: The target class of the pointer
+- objectId: The objectId referenced by the pointer
+
+Returns:
+- Whether the pointer is valid
+- The target object if it exists
+
+💡 **TIP**: Use this to troubleshoot broken/orphaned pointers.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The target class of the pointer",
+        },
+        objectId: {
+          type: "string",
+          description: "The objectId referenced by the pointer",
+        },
+      },
+      required: ["className", "objectId"],
+    },
+  },
+  {
+    name: "find_orphaned_pointers",
+    description: `🔍 **Find Orphaned Pointers in a Class**
+
+Scans a class to find pointers that reference non-existent objects.
+
+⚠️ This can be slow for large classes. Consider using limit/skip for pagination,
+or scanAll to walk the whole class in cursor-ordered batches.
+
+Parameters:
+- className: The class to scan
+- pointerField: The pointer field to check
+- limit: Maximum objects to check (default: 100)
+- skip: Offset for pagination
+- scanAll: If true, scan every object up to maxObjects (ignores limit/skip)
+- maxObjects: Cap for scanAll (default: 5000, max: 100000)
+- cursor: nextCursor from a truncated scanAll to resume where it stopped
+
+Returns:
+- List of objects with orphaned pointers
+- The broken pointer details
+
+💡 **TIP**: Useful for database cleanup and troubleshooting.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The class to scan",
+        },
+        pointerField: {
+          type: "string",
+          description: "The pointer field to check",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum objects to check (default: 100)",
+        },
+        skip: {
+          type: "number",
+          description: "Offset for pagination",
+        },
+        scanAll: {
+          type: "boolean",
+          description:
+            "If true, scan every object up to maxObjects (ignores limit/skip)",
+        },
+        maxObjects: {
+          type: "number",
+          description: "Maximum objects for scanAll (default: 5000)",
+        },
+        cursor: {
+          type: "string",
+          description: "nextCursor from a truncated scanAll to resume the scan",
+        },
+      },
+      required: ["className", "pointerField"],
+    },
+  },
+  {
+    name: "get_class_statistics",
+    description: `📊 **Get Statistics for a Class**
+
+Retrieves useful statistics about a class.
+
+Parameters:
+- className: The class to analyze
+- scanAll: If true, compute field usage over the whole class (up to maxObjects)
+  instead of a 100-object sample
+- maxObjects: Cap for scanAll (default: 5000, max: 100000)
+
+Returns:
+- Total object count
+- Date range (oldest and newest objects)
+- Field usage statistics (how many objects have each field)`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The class to analyze",
+        },
+        scanAll: {
+          type: "boolean",
+          description:
+            "If true, compute field usage over the whole class instead of a sample",
+        },
+        maxObjects: {
+          type: "number",
+          description: "Maximum objects for scanAll (default: 5000)",
+        },
+      },
+      required: ["className"],
+    },
+  },
+  {
+    name: "explain_query",
+    description: `🔍 **Explain a Query**
+
+Runs a query with Parse's explain option and summarizes how the database
+executes it: collection scan or index, documents examined vs. returned.
+Compares the plan with the class indexes and proposes an index when the
+query scans far more documents than it returns.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- className: The class to query
+- where: Query constraints (same syntax as query_class)
+- order: Sort order (same syntax as query_class)
+- limit: Maximum results (default: 100)
+
+Returns:
+- plan: database, scan type, index used, stages, documents examined/returned, time
+- indexes: The class's current indexes
+- recommendation: The index to add, as add_index arguments and as a database command
+
+💡 **TIP**: Explaining a query runs it. Index builds on large classes are
+expensive: ask the user before calling add_index.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        className: {
+          type: "string",
+          description: "The class to query",
+        },
+        where: {
+          type: "object",
+          description: "Query constraints",
+        },
+        order: {
+          type: "string",
+          description: "Sort order, e.g. '-createdAt' or 'name,-score'",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum results (default: 100)",
+        },
+      },
+      required: ["className"],
+    },
+  },
+  {
+    name: "get_server_logs",
+    description: `📜 **Get Server Logs**
+
+Reads Parse Server's logs (the /scriptlog endpoint), newest first, to see the
+server-side error behind a failed call: cloud function exceptions, trigger
+rejections, validation errors.
+
+⚠️ REQUIRES MASTER KEY
+
+Parameters:
+- level: "info" (default, every line) or "error" (errors only)
+- from / until: ISO dates bounding the time window (default: the last 7 days)
+- search: Only lines containing this text (case-insensitive)
+- functionName: Only lines about this cloud function
+- auditEntryId: Only lines around the time of this tool call (from get_audit_log)
+- failedTool: Only lines around the most recent failed call of this tool
+- windowSeconds: Margin around the call for auditEntryId/failedTool (default: 60)
+- limit: Maximum lines to return (default: 50, max: 500)
+
+Returns:
+- Log lines (timestamp, level, message); each line is linked to the failed
+  tool calls of this environment that ran at that time
+
+💡 **TIP**: After run_cloud_function or create_object fails, call this with
+failedTool to see the server's side of the error.
+
+Logs are only available when Parse Server uses its default file logger.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        level: {
+          type: "string",
+          enum: ["info", "error"],
+          description: 'Log level (default: "info")',
+        },
+        from: {
+          type: "string",
+          description: "Only lines after this ISO date",
+        },
+        until: {
+          type: "string",
+          description: "Only lines before this ISO date",
+        },
+        search: {
+          type: "string",
+          description: "Only lines containing this text",
+        },
+        functionName: {
+          type: "string",
+          description: "Only lines about this cloud function",
+        },
+        auditEntryId: {
+          type: "string",
+          description: "Only lines around the time of this audit log entry",
+        },
+        failedTool: {
+          type: "string",
+          description: "Only lines around the last failed call of this tool",
+        },
+        windowSeconds: {
+          type: "number",
+          description: "Margin around the call in seconds (default: 60)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum lines to return (default: 50, max: 500)",
+        },
+      },
+      required: [],
+    },
+  },
+
+  // === Config ===
+  {
+    name: "get_config",
+    description: `⚙️ **Get Parse Server Config**
+
+Retrieves the Parse Config values.
+
+Parse Config is a way to store configuration values on the server
+that can be fetched by clients.
+
+Returns:
+- All config key-value pairs`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: "update_config",
+    description: `⚙️ **Update Parse Server Config**
+
+⚠️ **WARNING: This tool MODIFIES server configuration!**
+🛡️ **ALWAYS ask the user for permission before updating config.**
+
+Updates Parse Config values.
+
+⚠️ REQUIRES MASTER KEY for config updates.
+
+Parameters:
+- params: Object with config key-value pairs to set
+- dryRun: If true, preview the changes without saving anything
+- confirmationToken: Token returned by the first call, required to actually run the change
+
+🔐 **Two-phase:** the first call returns a plan and a confirmationToken. Nothing changes until the tool is called again with the same arguments and that token.
+
+Returns:
+- Success status`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        params: {
+          type: "object",
+          description: "Config key-value pairs to set",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "If true, return a before/after preview of the changes without saving anything",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Confirmation token from the first call. Omit it to get the plan and a token.",
+        },
+      },
+      required: ["params"],
+    },
+  },
+];
+
+// Tools served by the MCP server itself: they don't need a Parse connection
+// and don't take an `environment` override
+const LOCAL_TOOLS = new Set([
+  "list_environments",
+  "switch_environment",
+  "get_audit_log",
+  "list_changes",
+  "get_result_page",
+]);
+
+/**
+ * Adds the optional `environment` argument to a tool's input schema.
+ */
+function withEnvironmentArgument(tool: (typeof TOOLS)[number]) {
+  if (LOCAL_TOOLS.has(tool.name)) {
+    return tool;
+  }
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        environment: {
+          type: "string",
+          description:
+            "Optional environment name to run against (defaults to the active environment)",
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Adds the optional `format` argument that controls how the result is rendered.
+ */
+function withFormatArgument<T extends { inputSchema: { properties: object } }>(
+  tool: T
+) {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        format: {
+          type: "string",
+          enum: RESPONSE_FORMATS,
+          description:
+            'Output format: "json" (default, pretty-printed), "compact" (no whitespace) or "table" (rows as columns + value arrays)',
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Adds the optional `asUser` and `sessionToken` arguments to user-scoped tools.
+ */
+function withUserScopeArguments<
+  T extends { name: string; inputSchema: { properties: object } },
+>(tool: T) {
+  if (!USER_SCOPED_TOOLS.has(tool.name)) {
+    return tool;
+  }
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        asUser: {
+          type: "string",
+          description:
+            "Run as this user (objectId or username) with a temporary session instead of the Master Key",
+        },
+        sessionToken: {
+          type: "string",
+          description:
+            "Run with this user's session token instead of the Master Key",
+        },
+      },
+    },
+  };
+}
+
+// ============================================================================
+// Access Policy
+// ============================================================================
+
+// Tools that write data or have side effects on the Parse Server
+const MUTATING_TOOLS = new Set([
+  "create_object",
+  "update_object",
+  "delete_object",
+  "add_to_relation",
+  "remove_from_relation",
+  "run_cloud_function",
+  "batch_create",
+  "batch_update",
+  "batch_delete",
+  "update_config",
+  "undo_change",
+  "import_data",
+  "create_class",
+  "add_field",
+  "delete_field",
+  "add_index",
+  "drop_index",
+  "delete_class",
+  "set_class_permissions",
+  "set_object_acl",
+  "bulk_set_object_acl",
+  "create_role",
+  "delete_role",
+  "add_users_to_role",
+  "remove_users_from_role",
+  "add_child_role",
+  "remove_child_role",
+  "update_user",
+  "set_user_disabled",
+  "request_password_reset",
+  "request_email_verification",
+  "revoke_user_sessions",
+  "send_push",
+  "upload_file",
+  "run_job",
+  "create_function_hook",
+  "create_trigger_hook",
+  "update_hook",
+  "delete_hook",
+]);
+
+const readOnly = MCP_READ_ONLY || !!mcpConfig.policy?.readOnly;
+const policyRules = mcpConfig.policy?.rules || [];
+
+interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  rule?: PolicyRule & { index?: number };
+}
+
+/**
+ * Returns the classes a tool call reads or writes, used to match
+ * class-scoped policy rules.
+ */
+function getTargetClasses(name: string, args: Record<string, unknown>) {
+  if (
+    [
+      "query_users",
+      "get_user",
+      "update_user",
+      "set_user_disabled",
+      "request_password_reset",
+      "request_email_verification",
+    ].includes(name)
+  ) {
+    return ["_User"];
+  }
+  if (
+    name === "list_user_sessions" ||
+    name === "revoke_user_sessions" ||
+    name === "query_sessions"
+  ) {
+    return ["_Session"];
+  }
+  if (name === "query_installations" || name === "send_push") {
+    return ["_Installation"];
+  }
+  if (name === "get_push_status") {
+    return ["_PushStatus"];
+  }
+  if (name === "get_job_status") {
+    return ["_JobStatus"];
+  }
+  if (
+    name === "get_roles" ||
+    name === "get_role_users" ||
+    name === "get_role_tree" ||
+    name.endsWith("_role") ||
+    name.endsWith("_to_role") ||
+    name.endsWith("_from_role")
+  ) {
+    return ["_Role"];
+  }
+  if (name === "undo_change") {
+    const change = changeJournal.find((c) => c.id === args.changeId);
+    return change?.className ? [change.className] : [];
+  }
+  const className = (args.className || args.parentClassName) as
+    | string
+    | undefined;
+  return className ? [className] : [];
+}
+
+function ruleMatchesTool(rule: PolicyRule, name: string): boolean {
+  if (!rule.tools) {
+    return true;
+  }
+  return rule.tools.some(
+    (tool) =>
+      tool === "*" ||
+      tool === name ||
+      (tool === "@mutating" && MUTATING_TOOLS.has(name))
+  );
+}
+
+function ruleMatches(
+  rule: PolicyRule,
+  name: string,
+  classes: string[],
+  environment: string
+): boolean {
+  if (rule.environments && !rule.environments.includes(environment)) {
+    return false;
+  }
+  if (!ruleMatchesTool(rule, name)) {
+    return false;
+  }
+  if (!rule.classes) {
+    return true;
+  }
+  return classes.some((className) => rule.classes!.includes(className));
+}
+
+/**
+ * Decides whether a tool call may run. Deny rules always win. If any allow
+ * rule targets the tool, the call must also match one of those allow rules.
+ */
+function evaluatePolicy(
+  name: string,
+  args: Record<string, unknown>,
+  environment: string
+): PolicyDecision {
+  if (readOnly && MUTATING_TOOLS.has(name)) {
+    return {
+      allowed: false,
+      reason: `The server is in read-only mode and "${name}" modifies data`,
+      rule: { name: "readOnly", effect: "deny", tools: ["@mutating"] },
+    };
+  }
+
+  const classes = getTargetClasses(name, args);
+
+  const denyIndex = policyRules.findIndex(
+    (rule) =>
+      rule.effect === "deny" && ruleMatches(rule, name, classes, environment)
+  );
+  if (denyIndex !== -1) {
+    return {
+      allowed: false,
+      reason: `Denied by policy rule ${
+        policyRules[denyIndex].name || `#${denyIndex}`
+      }`,
+      rule: { ...policyRules[denyIndex], index: denyIndex },
+    };
+  }
+
+  const allowRules = policyRules
+    .map((rule, index) => ({ ...rule, index }))
+    .filter(
+      (rule) =>
+        rule.effect === "allow" &&
+        ruleMatchesTool(rule, name) &&
+        (!rule.environments || rule.environments.includes(environment))
+    );
+  if (
+    allowRules.length > 0 &&
+    !allowRules.some((rule) => ruleMatches(rule, name, classes, environment))
+  ) {
+    return {
+      allowed: false,
+      reason: `"${name}" is only allowed on classes: ${allowRules
+        .flatMap((rule) => rule.classes || [])
+        .join(", ")}`,
+      rule: allowRules[0],
+    };
+  }
+
+  return { allowed: true };
+}
+
+function isToolVisible(name: string): boolean {
+  return !(readOnly && MUTATING_TOOLS.has(name));
+}
+
+// ============================================================================
+// Prompt Definitions
+// ============================================================================
+
+const PROMPTS = [
+  {
+    name: "explore_database",
+    description:
+      "Comprehensive prompt for exploring and understanding a Parse Server database",
+    arguments: [],
+  },
+  {
+    name: "troubleshoot_query",
+    description:
+      "Help troubleshoot a query that's not returning expected results",
+    arguments: [
+      {
+        name: "className",
+        description: "The class being queried",
+        required: true,
+      },
+      {
+        name: "issue",
+        description: "Description of the issue",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "safe_data_modification",
+    description: "Guidelines for safely modifying data with user approval",
+    arguments: [],
+  },
+];
+
+// ============================================================================
+// Cursor Pagination
+// ============================================================================
+
+// Sort orders supported by cursor pagination (objectId breaks ties)
+const CURSOR_ORDERS = ["objectId", "createdAt", "-createdAt"];
+
+// Objects fetched per request while scanning a whole class
+const SCAN_BATCH_SIZE = 1000;
+
+// Upper bound for "fetch all" and full-class scans
+const DEFAULT_MAX_OBJECTS = 5000;
+const MAX_OBJECTS_LIMIT = 100000;
+
+interface CursorQuery {
+  className: string;
+  where?: Record<string, unknown>;
+  order?: string;
+  include?: string[];
+  keys?: string[];
+}
+
+// Decoded form of the opaque cursor handed to the agent
+interface CursorState {
+  // Hash of the query the cursor belongs to
+  q: string;
+  // objectId and sort value of the last object returned
+  id: string;
+  v?: string;
+}
+
+function hashCursorQuery(query: CursorQuery): string {
+  return createHash("sha256")
+    .update(
+      canonicalJSON({
+        className: query.className,
+        where: query.where,
+        order: query.order || "objectId",
+      })
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, query: CursorQuery): CursorState {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (typeof state?.id !== "string" || state.q !== hashCursorQuery(query)) {
+    throw new Error(
+      "Invalid cursor: it belongs to a different query (className, where and order must stay the same)"
+    );
+  }
+  return state;
+}
+
+function clampMaxObjects(value: unknown): number {
+  return Math.min((value as number) || DEFAULT_MAX_OBJECTS, MAX_OBJECTS_LIMIT);
+}
+
+/**
+ * Fetches one page ordered by objectId or createdAt, starting right after the
+ * position encoded in `cursor`. Unlike skip, this stays fast on large classes
+ * and never skips or repeats objects while the data changes.
+ */
+async function fetchCursorPage(
+  profile: ParseProfile,
+  query: CursorQuery,
+  pageSize: number,
+  cursor?: string,
+  options: { useMasterKey?: boolean; sessionToken?: string } = {
+    useMasterKey: !!profile.masterKey,
+  }
+): Promise<{ results: ParseSDK.Object[]; nextCursor?: string }> {
+  const order = query.order || "objectId";
+  if (!CURSOR_ORDERS.includes(order)) {
+    throw new Error(
+      `Cursor pagination only supports order: ${CURSOR_ORDERS.join(", ")}`
+    );
+  }
+  const descending = order.startsWith("-");
+  const field = order.replace(/^-/, "");
+  const op = descending ? "$lt" : "$gt";
+
+  const constraints: Record<string, unknown>[] = query.where
+    ? [query.where]
+    : [];
+  if (cursor) {
+    const state = decodeCursor(cursor, query);
+    if (field === "objectId") {
+      constraints.push({ objectId: { [op]: state.id } });
+    } else {
+      const value = { __type: "Date", iso: state.v };
+      constraints.push({
+        $or: [
+          { [field]: { [op]: value } },
+          { [field]: value, objectId: { [op]: state.id } },
+        ],
+      });
+    }
+  }
+
+  const parseQuery = new profile.Parse.Query(query.className);
+  if (constraints.length > 0) {
+    parseQuery.withJSON({
+      where: constraints.length === 1 ? constraints[0] : { $and: constraints },
+    });
+  }
+  if (descending) {
+    parseQuery.descending(field);
+    if (field !== "objectId") {
+      parseQuery.addDescending("objectId");
+    }
+  } else {
+    parseQuery.ascending(field);
+    if (field !== "objectId") {
+      parseQuery.addAscending("objectId");
+    }
+  }
+  parseQuery.limit(pageSize);
+  query.include?.forEach((include) => parseQuery.include(include));
+  if (query.keys) {
+    parseQuery.select(query.keys);
+  }
+
+  const results = await parseQuery.find(options);
+  const last = results[results.length - 1];
+  return {
+    results,
+    nextCursor:
+      last && results.length === pageSize
+        ? encodeCursor({
+            q: hashCursorQuery(query),
+            id: last.id,
+            v: field === "objectId" ? undefined : last.createdAt?.toISOString(),
+          })
+        : undefined,
+  };
+}
+
+/**
+ * Walks every object matching a query in cursor-ordered batches (like Parse's
+ * eachBatch), stopping after `maxObjects`. The returned `nextCursor` resumes
+ * the scan where it stopped.
+ */
+async function scanQuery(
+  profile: ParseProfile,
+  query: CursorQuery,
+  maxObjects: number,
+  onBatch: (batch: ParseSDK.Object[]) => void | Promise<void>,
+  cursor?: string,
+  options?: { useMasterKey?: boolean; sessionToken?: string }
+): Promise<{ scanned: number; nextCursor?: string }> {
+  let scanned = 0;
+  let nextCursor = cursor;
+  do {
+    const page = await fetchCursorPage(
+      profile,
+      query,
+      Math.min(SCAN_BATCH_SIZE, maxObjects - scanned),
+      nextCursor,
+      options
+    );
+    scanned += page.results.length;
+    await onBatch(page.results);
+    nextCursor = page.nextCursor;
+  } while (nextCursor && scanned < maxObjects);
+  return { scanned, nextCursor };
+}
+
+// ============================================================================
+// Schema Management
+// ============================================================================
+
+const FIELD_TYPES = [
+  "String",
+  "Number",
+  "Boolean",
+  "Date",
+  "File",
+  "GeoPoint",
+  "Polygon",
+  "Array",
+  "Object",
+  "Bytes",
+  "Pointer",
+  "Relation",
+];
+
+interface FieldDefinition {
+  type: string;
+  targetClass?: string;
+  required?: boolean;
+  defaultValue?: unknown;
+}
+
+/**
+ * Adds a field to a Parse.Schema, validating the type and converting the
+ * default value to it.
+ */
+function addSchemaField(
+  schema: ParseSDK.Schema,
+  fieldName: string,
+  definition: FieldDefinition
+) {
+  const { type, targetClass, required } = definition;
+  if (!FIELD_TYPES.includes(type)) {
+    throw new Error(
+      `Unknown type "${type}" for field ${fieldName}. Use one of: ${FIELD_TYPES.join(", ")}`
+    );
+  }
+  if ((type === "Pointer" || type === "Relation") && !targetClass) {
+    throw new Error(`${type} field ${fieldName} needs a targetClass`);
+  }
+
+  let defaultValue = definition.defaultValue;
+  if (defaultValue !== undefined && type !== "Polygon" && type !== "Bytes") {
+    defaultValue = coerceValue(defaultValue, definition);
+    if (type === "Date") {
+      // Parse.Schema wraps Date defaults itself
+      defaultValue = (defaultValue as { iso: string }).iso;
+    }
+  }
+
+  schema.addField(
+    fieldName,
+    type as ParseSDK.Schema.TYPE,
+    {
+      targetClass,
+      required,
+      defaultValue,
+    } as ParseSDK.Schema.FieldOptions
+  );
+}
+
+// Shapes a Schema#save/update response like get_class_schema
+function describeSchema(response: unknown) {
+  const json = response as Record<string, unknown>;
+  return {
+    success: true,
+    className: json.className,
+    fields: json.fields,
+    classLevelPermissions: json.classLevelPermissions,
+    indexes: json.indexes,
+  };
+}
+
+/**
+ * Plan for a destructive schema change: what would be removed and how many
+ * objects it affects. Nothing is changed.
+ */
+// delete_field and delete_class take no snapshot: their data can't be restored
+const PERMANENT_LOSS_WARNING =
+  "Permanent: the deleted values are not snapshotted, so undo_change can't restore them. Export the data first if it may be needed.";
+
+async function previewSchemaChange(
+  profile: ParseProfile,
+  name: string,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const className = args.className as string;
+  const fields = await getSchemaFields(profile, className);
+  if (!fields) {
+    return { error: `Class ${className} does not exist` };
+  }
+  const totalObjects = await new profile.Parse.Query(className).count({
+    useMasterKey: !!profile.masterKey,
+  });
+
+  switch (name) {
+    case "delete_field": {
+      const fieldName = args.fieldName as string;
+      if (!fields[fieldName]) {
+        return { error: `Field ${fieldName} does not exist in ${className}` };
+      }
+      const query = new profile.Parse.Query(className);
+      query.exists(fieldName);
+      const affected =
+        fields[fieldName].type === "Relation"
+          ? undefined
+          : await query.count({ useMasterKey: !!profile.masterKey });
+      return {
+        dryRun: true,
+        tool: name,
+        className,
+        field: { name: fieldName, ...fields[fieldName] },
+        totalObjects,
+        objectsWithValue: affected,
+        summary: `Field ${fieldName} would be removed from the schema${affected === undefined ? "" : ` and its value deleted from ${affected} of ${totalObjects} objects`}.`,
+        warning: PERMANENT_LOSS_WARNING,
+        note: "Dry run: nothing was changed.",
+      };
+    }
+
+    case "drop_index": {
+      const indexName = args.indexName as string;
+      const schema = (await new profile.Parse.Schema(
+        className
+      ).get()) as unknown as { indexes?: Record<string, unknown> };
+      if (!schema.indexes?.[indexName]) {
+        return { error: `Index ${indexName} does not exist on ${className}` };
+      }
+      return {
+        dryRun: true,
+        tool: name,
+        className,
+        index: { name: indexName, fields: schema.indexes[indexName] },
+        totalObjects,
+        summary: `Index ${indexName} would be dropped. Queries on ${className} (${totalObjects} objects) that use it may become slower.`,
+        note: "Dry run: nothing was changed.",
+      };
+    }
+
+    default: {
+      // delete_class
+      return {
+        dryRun: true,
+        tool: name,
+        className,
+        purge: !!args.purge,
+        totalObjects,
+        fields: Object.keys(fields).length,
+        summary:
+          totalObjects === 0
+            ? `Empty class ${className} would be deleted.`
+            : args.purge
+              ? `All ${totalObjects} objects of ${className} would be permanently deleted, then the class itself.`
+              : `${className} has ${totalObjects} objects and can't be deleted without purge: true.`,
+        warning: PERMANENT_LOSS_WARNING,
+        note: "Dry run: nothing was changed.",
+      };
+    }
+  }
+}
+
+// ============================================================================
+// Class-Level Permissions
+// ============================================================================
+
+const CLP_OPERATIONS = [
+  "find",
+  "get",
+  "count",
+  "create",
+  "update",
+  "delete",
+  "addField",
+];
+
+type ClassLevelPermissions = Record<string, unknown>;
+
+// Field names that usually hold personal or secret data
+const SENSITIVE_FIELD_PATTERN =
+  /password|secret|token|apikey|api_key|email|phone|ssn|birth|address|salary|iban|credit|card/i;
+
+// System classes where public create is expected (sign-up, device registration)
+const PUBLIC_CREATE_CLASSES = new Set(["_User", "_Installation"]);
+
+/**
+ * Converts a principal ("public", "authenticated", "role:Admin",
+ * "user:<id>", "pointer:<field>") to its key in a CLP operation or in
+ * protectedFields. Logged-in users are "requiresAuthentication" in an
+ * operation but "authenticated" in protectedFields.
+ */
+function toPermissionKey(
+  principal: string,
+  target: "operation" | "protectedFields" = "operation"
+): {
+  key?: string;
+  pointerField?: string;
+} {
+  if (principal === "public" || principal === "*") {
+    return { key: "*" };
+  }
+  if (principal === "authenticated" || principal === "requiresAuthentication") {
+    return {
+      key:
+        target === "protectedFields"
+          ? "authenticated"
+          : "requiresAuthentication",
+    };
+  }
+  if (principal.startsWith("role:")) {
+    return { key: principal };
+  }
+  if (principal.startsWith("user:")) {
+    return { key: principal.slice("user:".length) };
+  }
+  if (principal.startsWith("pointer:")) {
+    return { pointerField: principal.slice("pointer:".length) };
+  }
+  throw new Error(
+    `Unknown principal "${principal}". Use public, authenticated, role:<name>, user:<objectId> or pointer:<field>`
+  );
+}
+
+async function getClassLevelPermissions(
+  profile: ParseProfile,
+  className: string
+): Promise<ClassLevelPermissions> {
+  const schema = (await new profile.Parse.Schema(
+    className
+  ).get()) as unknown as { classLevelPermissions?: ClassLevelPermissions };
+  return schema.classLevelPermissions || {};
+}
+
+/**
+ * Applies set_class_permissions arguments to a CLP and returns the new CLP.
+ */
+function applyPermissionChanges(
+  current: ClassLevelPermissions,
+  args: Record<string, unknown>
+): ClassLevelPermissions {
+  if (args.replace) {
+    return args.replace as ClassLevelPermissions;
+  }
+  const clp = JSON.parse(JSON.stringify(current)) as Record<
+    string,
+    Record<string, unknown>
+  >;
+
+  const rules =
+    (args.rules as {
+      operations: string[];
+      principal: string;
+      allow: boolean;
+    }[]) || [];
+  for (const rule of rules) {
+    const { key, pointerField } = toPermissionKey(rule.principal);
+    for (const operation of rule.operations) {
+      if (!CLP_OPERATIONS.includes(operation)) {
+        throw new Error(
+          `Unknown operation "${operation}". Use one of: ${CLP_OPERATIONS.join(", ")}`
+        );
+      }
+      const permission = (clp[operation] ||= {});
+      if (pointerField) {
+        const fields = new Set((permission.pointerFields as string[]) || []);
+        if (rule.allow) {
+          fields.add(pointerField);
+        } else {
+          fields.delete(pointerField);
+        }
+        if (fields.size > 0) {
+          permission.pointerFields = [...fields];
+        } else {
+          delete permission.pointerFields;
+        }
+      } else if (rule.allow) {
+        permission[key!] = true;
+      } else {
+        delete permission[key!];
+      }
+    }
+  }
+
+  const protectedFields = args.protectedFields as
+    Record<string, string[]> | undefined;
+  for (const [principal, fields] of Object.entries(protectedFields || {})) {
+    const { key, pointerField } = toPermissionKey(principal, "protectedFields");
+    const entry = pointerField ? `userField:${pointerField}` : key!;
+    const current = (clp.protectedFields ||= {});
+    if (fields.length > 0) {
+      current[entry] = fields;
+    } else {
+      delete current[entry];
+    }
+  }
+  return clp;
+}
+
+async function previewPermissionChanges(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const before = await getClassLevelPermissions(
+    profile,
+    args.className as string
+  );
+  const after = applyPermissionChanges(before, args);
+  return {
+    dryRun: true,
+    tool: "set_class_permissions",
+    className: args.className,
+    changes: diffFields(before, after),
+    before,
+    after,
+    note: "Dry run: nothing was saved.",
+  };
+}
+
+interface SecurityFinding {
+  severity: "high" | "medium" | "low";
+  className: string;
+  operation?: string;
+  field?: string;
+  issue: string;
+  recommendation: string;
+}
+
+// A CLP operation without an entry is treated as public by Parse Server
+function isPublic(clp: ClassLevelPermissions, operation: string): boolean {
+  const permission = clp[operation] as Record<string, unknown> | undefined;
+  return !permission || permission["*"] === true;
+}
+
+/**
+ * Flags risky class-level permissions of one class.
+ */
+function auditClassPermissions(
+  className: string,
+  clp: ClassLevelPermissions,
+  fields: Record<string, { type: string }>
+): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+  const unset = (operation: string) =>
+    clp[operation] === undefined
+      ? " (no CLP entry, which defaults to public)"
+      : "";
+
+  for (const operation of ["create", "update", "delete"]) {
+    if (!isPublic(clp, operation)) {
+      continue;
+    }
+    const expected =
+      operation === "create" && PUBLIC_CREATE_CLASSES.has(className);
+    findings.push({
+      severity: expected ? "low" : "high",
+      className,
+      operation,
+      issue: `Anyone can ${operation} objects${unset(operation)}`,
+      recommendation: expected
+        ? `Public create is normal for ${className}; make sure ACLs and beforeSave triggers restrict what can be written`
+        : `Restrict ${operation} to authenticated users, a role or a pointer field`,
+    });
+  }
+
+  if (isPublic(clp, "addField")) {
+    findings.push({
+      severity: "high",
+      className,
+      operation: "addField",
+      issue: `Anyone can add fields to the schema${unset("addField")}`,
+      recommendation:
+        "Remove public addField so clients can't change the schema (and disable allowClientClassCreation on the server)",
+    });
+  }
+
+  const readable = ["find", "get", "count"].filter((operation) =>
+    isPublic(clp, operation)
+  );
+  if (className === "_User" && readable.length > 0) {
+    findings.push({
+      severity: readable.includes("find") ? "high" : "medium",
+      className,
+      operation: readable.join(", "),
+      issue: "Everyone can read or list users",
+      recommendation:
+        "Restrict find/count on _User to authenticated users or an admin role, and protect personal fields",
+    });
+  } else if (readable.includes("find") && className.startsWith("_")) {
+    findings.push({
+      severity: "medium",
+      className,
+      operation: "find",
+      issue: `Everyone can query the system class ${className}`,
+      recommendation: "Restrict find to the Master Key or an admin role",
+    });
+  }
+
+  // Sensitive fields readable by principals that aren't hiding them
+  const protectedFields = (clp.protectedFields || {}) as Record<
+    string,
+    string[]
+  >;
+  const hiddenFromPublic = new Set(protectedFields["*"] || []);
+  const readableBy = ["find", "get"].some(
+    (operation) =>
+      isPublic(clp, operation) ||
+      !!(clp[operation] as Record<string, unknown>)?.requiresAuthentication
+  );
+  if (readableBy) {
+    for (const [field, definition] of Object.entries(fields)) {
+      if (
+        SENSITIVE_FIELD_PATTERN.test(field) &&
+        !hiddenFromPublic.has(field) &&
+        !(className === "_User" && field === "password") &&
+        definition.type !== "Relation"
+      ) {
+        findings.push({
+          severity: "medium",
+          className,
+          field,
+          issue: `Sensitive-looking field "${field}" is readable by any user who can read the class`,
+          recommendation: `Add "${field}" to protectedFields for public (or use the server's protectedFields option)`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+// ============================================================================
+// Object ACLs
+// ============================================================================
+
+type ACLJSON = Record<string, { read?: boolean; write?: boolean }>;
+
+interface ACLGrant {
+  principal: string;
+  read?: boolean;
+  write?: boolean;
+}
+
+/**
+ * Converts ACL grants to ACL keys: "public" → "*", "role:<name>" stays,
+ * "user:<objectId>" → objectId and "username:<name>" is looked up.
+ */
+async function resolveACLGrants(
+  profile: ParseProfile,
+  grants: ACLGrant[]
+): Promise<(ACLGrant & { key: string })[]> {
+  const usernames = grants
+    .filter((grant) => grant.principal.startsWith("username:"))
+    .map((grant) => grant.principal.slice("username:".length));
+  const userIds = new Map<string, string>();
+  if (usernames.length > 0) {
+    const query = new profile.Parse.Query(profile.Parse.User);
+    query.containedIn("username", usernames);
+    query.limit(usernames.length);
+    const users = await query.find({ useMasterKey: !!profile.masterKey });
+    users.forEach((user) => userIds.set(user.get("username"), user.id));
+  }
+
+  return grants.map((grant) => {
+    const { principal } = grant;
+    let key: string | undefined;
+    if (principal === "public" || principal === "*") {
+      key = "*";
+    } else if (principal.startsWith("role:")) {
+      key = principal;
+    } else if (principal.startsWith("user:")) {
+      key = principal.slice("user:".length);
+    } else if (principal.startsWith("username:")) {
+      key = userIds.get(principal.slice("username:".length));
+      if (!key) {
+        throw new Error(
+          `User "${principal.slice("username:".length)}" not found`
+        );
+      }
+    } else {
+      throw new Error(
+        `Unknown principal "${principal}". Use public, role:<name>, user:<objectId> or username:<name>`
+      );
+    }
+    return { ...grant, key };
+  });
+}
+
+// Grants (true) or revokes (false) read/write; undefined leaves it unchanged
+function applyACLGrants(
+  acl: ACLJSON,
+  grants: (ACLGrant & { key: string })[]
+): ACLJSON {
+  const result: ACLJSON = Object.fromEntries(
+    Object.entries(acl).map(([key, entry]) => [key, { ...entry }])
+  );
+  for (const { key, read, write } of grants) {
+    const entry = { ...result[key] };
+    for (const [access, allow] of [
+      ["read", read],
+      ["write", write],
+    ] as const) {
+      if (allow === true) {
+        entry[access] = true;
+      } else if (allow === false) {
+        delete entry[access];
+      }
+    }
+    if (entry.read || entry.write) {
+      result[key] = entry;
+    } else {
+      delete result[key];
+    }
+  }
+  return result;
+}
+
+// Compares entry by entry; a missing entry or flag is the same as false
+function isSameACL(a: ACLJSON | undefined, b: ACLJSON | undefined): boolean {
+  const keys = new Set([...Object.keys(a || {}), ...Object.keys(b || {})]);
+  return [...keys].every(
+    (key) =>
+      !!a?.[key]?.read === !!b?.[key]?.read &&
+      !!a?.[key]?.write === !!b?.[key]?.write
+  );
+}
+
+function diffACL(
+  before: ACLJSON | undefined,
+  after: ACLJSON | undefined
+): FieldChange[] {
+  return isSameACL(before, after) ? [] : [{ field: "ACL", before, after }];
+}
+
+/**
+ * Readable breakdown of an ACL: public access, each user (with username) and
+ * each role.
+ */
+async function describeACL(profile: ParseProfile, acl: ACLJSON | undefined) {
+  if (!acl) {
+    return {
+      hasACL: false,
+      summary:
+        "No ACL: anyone allowed by the class-level permissions can read and write this object",
+    };
+  }
+
+  const userIds = Object.keys(acl).filter(
+    (key) => key !== "*" && !key.startsWith("role:")
+  );
+  const usernames = new Map<string, string>();
+  if (userIds.length > 0) {
+    const query = new profile.Parse.Query(profile.Parse.User);
+    query.containedIn("objectId", userIds);
+    query.select(["username"]);
+    query.limit(userIds.length);
+    const users = await query.find({ useMasterKey: !!profile.masterKey });
+    users.forEach((user) => usernames.set(user.id, user.get("username")));
+  }
+
+  const access = (key: string) => ({
+    read: !!acl[key]?.read,
+    write: !!acl[key]?.write,
+  });
+  const users = userIds.map((userId) => ({
+    userId,
+    username: usernames.get(userId),
+    missing: usernames.has(userId) ? undefined : true,
+    ...access(userId),
+  }));
+  const roles = Object.keys(acl)
+    .filter((key) => key.startsWith("role:"))
+    .map((key) => ({ role: key.slice("role:".length), ...access(key) }));
+
+  const describe = (type: "read" | "write") => {
+    const who = [
+      ...(acl["*"]?.[type] ? ["everyone"] : []),
+      ...users
+        .filter((user) => user[type])
+        .map((user) => `user ${user.username || user.userId}`),
+      ...roles.filter((role) => role[type]).map((role) => `role ${role.role}`),
+    ];
+    return who.length > 0 ? who.join(", ") : "nobody (Master Key only)";
+  };
+
+  return {
+    hasACL: true,
+    public: access("*"),
+    users,
+    roles,
+    summary: `Read: ${describe("read")}. Write: ${describe("write")}.`,
+  };
+}
+
+async function previewACLChanges(
+  profile: ParseProfile,
+  name: string,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const className = args.className as string;
+  const grants = await resolveACLGrants(
+    profile,
+    (args.grants as ACLGrant[]) || []
+  );
+  const nextACL = (acl: ACLJSON | undefined) =>
+    (args.replace as ACLJSON) || applyACLGrants(acl || {}, grants);
+
+  if (name === "set_object_acl") {
+    const objectId = args.objectId as string;
+    const current = await fetchObjectsById(profile, className, [objectId]);
+    const before = current.get(objectId)?.ACL as ACLJSON | undefined;
+    const after = nextACL(before);
+    return {
+      dryRun: true,
+      tool: name,
+      className,
+      objectId,
+      found: current.has(objectId),
+      before: await describeACL(profile, before),
+      after: await describeACL(profile, after),
+      note: "Dry run: nothing was saved.",
+    };
+  }
+
+  // bulk_set_object_acl: count the matches and show a sample of the changes
+  const query = new profile.Parse.Query(className);
+  query.withJSON({ where: (args.where as Record<string, unknown>) || {} });
+  const matched = await query.count({ useMasterKey: !!profile.masterKey });
+  query.limit(10);
+  const sample = await query.find({ useMasterKey: !!profile.masterKey });
+  return {
+    dryRun: true,
+    tool: name,
+    className,
+    matched,
+    willProcess: Math.min(
+      matched,
+      Math.min((args.maxObjects as number) || 1000, MAX_OBJECTS_LIMIT)
+    ),
+    sample: sample.map((obj) => {
+      const before = obj.toJSON().ACL as ACLJSON | undefined;
+      return {
+        objectId: obj.id,
+        changes: diffACL(before, nextACL(before)),
+      };
+    }),
+    note: "Dry run: nothing was saved.",
+  };
+}
+
+// ============================================================================
+// Access Simulation
+// ============================================================================
+
+interface UserRole {
+  name: string;
+  objectId: string;
+  // Name of the child role membership was inherited through
+  via?: string;
+}
+
+/**
+ * Returns every role a user belongs to: roles listing the user directly, and
+ * roles whose "roles" relation contains one of those (inherited).
+ */
+async function getUserRoles(
+  profile: ParseProfile,
+  userId: string
+): Promise<UserRole[]> {
+  const { Parse } = profile;
+  const found = new Map<string, UserRole>();
+
+  const direct = new Parse.Query(Parse.Role);
+  direct.equalTo("users", Parse.User.createWithoutData(userId));
+  direct.limit(1000);
+  let level = await direct.find({ useMasterKey: !!profile.masterKey });
+  level.forEach((role) =>
+    found.set(role.id, { name: role.getName(), objectId: role.id })
+  );
+
+  while (level.length > 0) {
+    const next: ParseSDK.Role[] = [];
+    for (const child of level) {
+      const parents = new Parse.Query(Parse.Role);
+      parents.equalTo("roles", child);
+      parents.limit(1000);
+      const results = await parents.find({ useMasterKey: !!profile.masterKey });
+      for (const role of results.filter((parent) => !found.has(parent.id))) {
+        found.set(role.id, {
+          name: role.getName(),
+          objectId: role.id,
+          via: child.getName(),
+        });
+        next.push(role);
+      }
+    }
+    level = next;
+  }
+  return [...found.values()];
+}
+
+interface AccessStep {
+  layer: "CLP" | "ACL" | "protectedFields";
+  result: "allow" | "deny" | "restrict" | "skipped";
+  rule: string;
+}
+
+// Whether a pointer (or array of pointers) field value references the user
+function pointsToUser(value: unknown, userId: string | undefined): boolean {
+  if (!userId) {
+    return false;
+  }
+  const pointers = Array.isArray(value) ? value : [value];
+  return pointers.some(
+    (pointer) =>
+      (pointer as { objectId?: string } | undefined)?.objectId === userId
+  );
+}
+
+/**
+ * Evaluates the class-level permission of one operation the way Parse Server
+ * does: public, then the user and role keys, then requiresAuthentication,
+ * then pointer fields (which restrict results instead of failing the request).
+ */
+function evaluateCLP(
+  clp: ClassLevelPermissions,
+  operation: string,
+  aclGroup: string[],
+  userId: string | undefined,
+  object: Record<string, unknown> | undefined
+): AccessStep {
+  const permission = clp[operation] as Record<string, unknown> | undefined;
+  if (!permission) {
+    return {
+      layer: "CLP",
+      result: "allow",
+      rule: `No CLP entry for ${operation}, which defaults to public`,
+    };
+  }
+  if (permission["*"]) {
+    return { layer: "CLP", result: "allow", rule: `${operation}: public (*)` };
+  }
+  const key = aclGroup.find((entry) => permission[entry]);
+  if (key) {
+    return {
+      layer: "CLP",
+      result: "allow",
+      rule: `${operation}: ${key === userId ? `user ${key}` : key}`,
+    };
+  }
+  if (permission.requiresAuthentication && userId) {
+    return {
+      layer: "CLP",
+      result: "allow",
+      rule: `${operation}: requiresAuthentication`,
+    };
+  }
+
+  // Legacy readUserFields/writeUserFields are pointer permissions too
+  const userFields = ["find", "get", "count"].includes(operation)
+    ? clp.readUserFields
+    : clp.writeUserFields;
+  const pointerFields = [
+    ...((permission.pointerFields as string[]) || []),
+    ...((userFields as string[]) || []),
+  ];
+  if (
+    pointerFields.length > 0 &&
+    userId &&
+    operation !== "create" &&
+    operation !== "addField"
+  ) {
+    if (!object) {
+      return {
+        layer: "CLP",
+        result: "restrict",
+        rule: `${operation}: only objects whose ${pointerFields.join(" or ")} points to this user`,
+      };
+    }
+    const field = pointerFields.find((name) =>
+      pointsToUser(object[name], userId)
+    );
+    return field
+      ? {
+          layer: "CLP",
+          result: "allow",
+          rule: `${operation}: pointer field ${field} points to this user`,
+        }
+      : {
+          layer: "CLP",
+          result: "deny",
+          rule: `${operation}: only allowed when ${pointerFields.join(" or ")} points to the user, and it doesn't on this object`,
+        };
+  }
+
+  const allowed = Object.keys(permission).filter(
+    (entry) => permission[entry] === true
+  );
+  return {
+    layer: "CLP",
+    result: "deny",
+    rule: `${operation}: ${
+      permission.requiresAuthentication && !userId
+        ? "requires a logged-in user"
+        : `this user matches none of the allowed entries (${
+            [
+              ...allowed,
+              ...pointerFields.map((name) => `pointer:${name}`),
+            ].join(", ") || "Master Key only"
+          })`
+    }`,
+  };
+}
+
+function evaluateACL(
+  acl: ACLJSON | undefined,
+  operation: string,
+  aclGroup: string[],
+  userId: string | undefined
+): AccessStep {
+  const access = ["find", "get"].includes(operation) ? "read" : "write";
+  if (!acl) {
+    return {
+      layer: "ACL",
+      result: "allow",
+      rule: "The object has no ACL, so it is public",
+    };
+  }
+  const key = aclGroup.find((entry) => acl[entry]?.[access]);
+  if (key) {
+    return {
+      layer: "ACL",
+      result: "allow",
+      rule: `${access} granted to ${key === "*" ? "public (*)" : key === userId ? `user ${key}` : key}`,
+    };
+  }
+  const granted = Object.keys(acl).filter((entry) => acl[entry]?.[access]);
+  return {
+    layer: "ACL",
+    result: "deny",
+    rule:
+      granted.length > 0
+        ? `${access} is only granted to ${granted.join(", ")}`
+        : `${access} is not granted to anyone (Master Key only)`,
+  };
+}
+
+/**
+ * Fields protectedFields hides from the user. When several entries apply,
+ * only the fields hidden by all of them stay hidden (as Parse Server does).
+ */
+function protectedFieldsFor(
+  clp: ClassLevelPermissions,
+  aclGroup: string[],
+  userId: string | undefined,
+  object: Record<string, unknown> | undefined
+): { hidden: string[]; entries: string[] } {
+  const protectedFields = (clp.protectedFields || {}) as Record<
+    string,
+    string[]
+  >;
+  const entries = Object.keys(protectedFields).filter((entry) => {
+    if (entry === "authenticated") {
+      return !!userId;
+    }
+    if (entry.startsWith("userField:")) {
+      return pointsToUser(object?.[entry.slice("userField:".length)], userId);
+    }
+    return aclGroup.includes(entry);
+  });
+  if (entries.length === 0) {
+    return { hidden: [], entries };
+  }
+  const hidden = entries
+    .map((entry) => protectedFields[entry])
+    .reduce((common, fields) =>
+      common.filter((field) => fields.includes(field))
+    );
+  return { hidden, entries };
+}
+
+/**
+ * Decides whether a user may run an operation on a class or object, going
+ * through the CLP, the object ACL and protectedFields.
+ */
+async function explainAccess(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const className = args.className as string;
+  const operation = args.operation as string;
+  const objectId = args.objectId as string | undefined;
+
+  let user: ParseSDK.User | undefined;
+  if (args.user) {
+    user = await findUser(profile, args.user as string);
+    if (!user) {
+      return { error: `User "${args.user}" not found` };
+    }
+  }
+  const userId = user?.id;
+  const roles = userId ? await getUserRoles(profile, userId) : [];
+  const aclGroup = [
+    "*",
+    ...(userId ? [userId] : []),
+    ...roles.map((role) => `role:${role.name}`),
+  ];
+
+  let object: Record<string, unknown> | undefined;
+  if (objectId) {
+    const found = await fetchObjectsById(profile, className, [objectId]);
+    object = found.get(objectId);
+    if (!object) {
+      return { error: `Object ${objectId} not found in ${className}` };
+    }
+  }
+
+  const clp = await getClassLevelPermissions(profile, className);
+  const steps: AccessStep[] = [
+    evaluateCLP(clp, operation, aclGroup, userId, object),
+  ];
+
+  const usesACL = ["find", "get", "update", "delete"].includes(operation);
+  if (steps[0].result !== "deny") {
+    if (usesACL && object) {
+      steps.push(
+        evaluateACL(
+          object.ACL as ACLJSON | undefined,
+          operation,
+          aclGroup,
+          userId
+        )
+      );
+    } else if (usesACL) {
+      steps.push({
+        layer: "ACL",
+        result: "skipped",
+        rule: "No objectId given: each object's ACL still applies",
+      });
+    }
+  }
+
+  const denied = steps.find((step) => step.result === "deny");
+  let hiddenFields: string[] | undefined;
+  if (!denied && ["find", "get"].includes(operation)) {
+    const { hidden, entries } = protectedFieldsFor(
+      clp,
+      aclGroup,
+      userId,
+      object
+    );
+    hiddenFields = hidden;
+    if (hidden.length > 0) {
+      steps.push({
+        layer: "protectedFields",
+        result: "restrict",
+        rule: `Hidden by protectedFields (${entries.join(", ")}): ${hidden.join(", ")}`,
+      });
+    }
+  }
+
+  const decidedBy =
+    denied ||
+    [...steps]
+      .reverse()
+      .find(
+        (step) => step.layer !== "protectedFields" && step.result !== "skipped"
+      );
+  return {
+    decision: denied ? "deny" : "allow",
+    decidedBy,
+    user: user
+      ? { objectId: user.id, username: user.get("username") }
+      : "logged out (public)",
+    roles,
+    className,
+    objectId,
+    operation,
+    steps,
+    hiddenFields,
+    note: "Cloud Code triggers and server options can still reject or change the request. The Master Key bypasses all of these checks.",
+  };
+}
+
+// ============================================================================
+// User Impersonation
+// ============================================================================
+
+// Tools that accept `asUser` or `sessionToken` to run as an end user
+const USER_SCOPED_TOOLS = new Set([
+  "query_class",
+  "get_object_by_id",
+  "run_cloud_function",
+]);
+
+// Lifetime of sessions minted for asUser, in case revoking them fails
+const IMPERSONATION_SESSION_TTL_MS = 5 * 60 * 1000;
+
+interface UserScope {
+  sessionToken: string;
+  user: { objectId: string; username?: string };
+  // objectId of the session minted for asUser, revoked after the call
+  temporarySessionId?: string;
+}
+
+/**
+ * Finds a user by objectId, username or email. An "id:", "username:" or
+ * "email:" prefix restricts the lookup to that field; a bare value that
+ * matches more than one user is rejected instead of picking one of them.
+ */
+async function findUser(
+  profile: ParseProfile,
+  idOrUsername: string
+): Promise<ParseSDK.User | undefined> {
+  const { Parse } = profile;
+  const prefixed = /^(id|username|email):(.+)$/.exec(idOrUsername);
+  const value = prefixed ? prefixed[2] : idOrUsername;
+  const fields = prefixed
+    ? [prefixed[1] === "id" ? "objectId" : prefixed[1]]
+    : ["objectId", "username", "email"];
+  const query = Parse.Query.or(
+    ...fields.map((field) => new Parse.Query(Parse.User).equalTo(field, value))
+  );
+  query.limit(2);
+  const users = await query.find({ useMasterKey: !!profile.masterKey });
+  if (users.length > 1) {
+    throw new Error(
+      `"${idOrUsername}" matches more than one user (${users
+        .map((user) => user.get("username") || user.id)
+        .join(", ")}). Prefix it with id:, username: or email:`
+    );
+  }
+  return users[0];
+}
+
+/**
+ * Resolves the session a user-scoped call runs with: the given sessionToken,
+ * or for asUser a temporary session minted with the Master Key.
+ */
+async function openUserScope(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<UserScope> {
+  if (args.sessionToken) {
+    const sessionToken = args.sessionToken as string;
+    const me = await parseRequest<{ objectId: string; username?: string }>(
+      profile,
+      "GET",
+      "users/me",
+      {},
+      { sessionToken }
+    );
+    return {
+      sessionToken,
+      user: { objectId: me.objectId, username: me.username },
+    };
+  }
+
+  if (!profile.masterKey) {
+    throw new Error("Master Key is required to impersonate a user with asUser");
+  }
+  // Minting a session writes to _Session, which read-only mode forbids
+  if (readOnly) {
+    throw new Error(
+      "asUser is not available in read-only mode: it creates a session. Pass the user's sessionToken instead"
+    );
+  }
+  const user = await findUser(profile, args.asUser as string);
+  if (!user) {
+    throw new Error(`User "${args.asUser}" not found`);
+  }
+  const sessionToken = `r:${randomBytes(16).toString("hex")}`;
+  const session = await parseRequest<{ objectId: string }>(
+    profile,
+    "POST",
+    "sessions",
+    {
+      sessionToken,
+      user: { __type: "Pointer", className: "_User", objectId: user.id },
+      createdWith: { action: "create", authProvider: "mcp" },
+      restricted: false,
+      expiresAt: {
+        __type: "Date",
+        iso: new Date(Date.now() + IMPERSONATION_SESSION_TTL_MS).toISOString(),
+      },
+    },
+    { useMasterKey: true }
+  );
+  return {
+    sessionToken,
+    user: { objectId: user.id, username: user.get("username") },
+    temporarySessionId: session.objectId,
+  };
+}
+
+async function closeUserScope(profile: ParseProfile, scope: UserScope) {
+  if (!scope.temporarySessionId) {
+    return;
+  }
+  try {
+    await parseRequest(
+      profile,
+      "DELETE",
+      `sessions/${scope.temporarySessionId}`,
+      {},
+      { useMasterKey: true }
+    );
+  } catch (error) {
+    console.error(
+      `Warning: Failed to revoke temporary session ${scope.temporarySessionId}: ${error}`
+    );
+  }
+}
+
+/**
+ * Runs a user-scoped tool with the user's session instead of the Master Key,
+ * and labels the result with who it ran as.
+ */
+async function runAsUser(
+  profile: ParseProfile,
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolCallContext
+): Promise<unknown> {
+  let scope: UserScope;
+  try {
+    scope = await openUserScope(profile, args);
+  } catch (error: unknown) {
+    const parseError = error as { code?: number; message?: string };
+    return {
+      error: parseError.message || String(error),
+      code: parseError.code,
+    };
+  }
+
+  try {
+    const result = await handleToolCall(name, args, {
+      ...context,
+      userScope: scope,
+    });
+    // Keep a failed call's error at the top level, where the audit log and
+    // the caller look for it
+    const failure =
+      result && typeof result === "object" && "error" in result
+        ? (result as { error: unknown; code?: unknown })
+        : undefined;
+    return {
+      ...(failure && { error: failure.error, code: failure.code }),
+      userScoped: true,
+      runAs: scope.user,
+      session: scope.temporarySessionId
+        ? "temporary session (revoked after the call)"
+        : "provided session token",
+      note: "Ran without the Master Key: CLPs, ACLs, protectedFields and Cloud Code triggers applied as for this user.",
+      result,
+    };
+  } finally {
+    await closeUserScope(profile, scope);
+  }
+}
+
+// ============================================================================
+// Role Management
+// ============================================================================
+
+// Parse Server's rule for role names
+const ROLE_NAME_PATTERN = /^[0-9a-zA-Z\-_ ]+$/;
+
+async function findRole(
+  profile: ParseProfile,
+  name: string
+): Promise<ParseSDK.Role> {
+  const query = new profile.Parse.Query(profile.Parse.Role);
+  query.equalTo("name", name);
+  const role = await query.first({ useMasterKey: !!profile.masterKey });
+  if (!role) {
+    throw new Error(`Role "${name}" not found`);
+  }
+  return role;
+}
+
+// Resolves objectIds or usernames to users, failing on any unknown one
+async function findUsers(
+  profile: ParseProfile,
+  idsOrUsernames: string[]
+): Promise<ParseSDK.User[]> {
+  if (idsOrUsernames.length === 0) {
+    return [];
+  }
+  const { Parse } = profile;
+  const query = Parse.Query.or(
+    new Parse.Query(Parse.User).containedIn("objectId", idsOrUsernames),
+    new Parse.Query(Parse.User).containedIn("username", idsOrUsernames)
+  );
+  query.limit(idsOrUsernames.length * 2);
+  const users = await query.find({ useMasterKey: !!profile.masterKey });
+  const missing = idsOrUsernames.filter(
+    (value) =>
+      !users.some((user) => user.id === value || user.get("username") === value)
+  );
+  if (missing.length > 0) {
+    throw new Error(`Users not found: ${missing.join(", ")}`);
+  }
+  return users;
+}
+
+interface RoleNode {
+  name: string;
+  objectId: string;
+  // Roles whose members inherit this role
+  children: string[];
+  // Roles this role's members inherit
+  parents: string[];
+  userIds: string[];
+}
+
+// Roles, and users or child roles per role, loaded at most by loadRoleGraph,
+// and how many roles have their relations loaded at once
+const MAX_GRAPH_ROLES = 10000;
+const MAX_ROLE_MEMBERS = 10000;
+const ROLE_QUERY_CONCURRENCY = 5;
+
+/**
+ * Loads every role with its child roles and direct users, a page at a time.
+ * `truncated` is set when there were more roles or members than the limits.
+ */
+async function loadRoleGraph(
+  profile: ParseProfile
+): Promise<{ graph: Map<string, RoleNode>; truncated: boolean }> {
+  const graph = new Map<string, RoleNode>();
+  const roles = await scanQuery(
+    profile,
+    { className: "_Role", keys: ["name"] },
+    MAX_GRAPH_ROLES,
+    (batch) => {
+      for (const role of batch) {
+        graph.set(role.get("name"), {
+          name: role.get("name"),
+          objectId: role.id,
+          children: [],
+          parents: [],
+          userIds: [],
+        });
+      }
+    }
+  );
+  let truncated = !!roles.nextCursor;
+
+  const scanRelation = async (
+    node: RoleNode,
+    key: "roles" | "users",
+    onBatch: (batch: ParseSDK.Object[]) => void
+  ) => {
+    const { nextCursor } = await scanQuery(
+      profile,
+      {
+        className: key === "roles" ? "_Role" : "_User",
+        where: {
+          $relatedTo: {
+            object: {
+              __type: "Pointer",
+              className: "_Role",
+              objectId: node.objectId,
+            },
+            key,
+          },
+        },
+        keys: key === "roles" ? ["name"] : ["objectId"],
+      },
+      MAX_ROLE_MEMBERS,
+      onBatch
+    );
+    truncated ||= !!nextCursor;
+  };
+  const nodes = [...graph.values()];
+  for (let i = 0; i < nodes.length; i += ROLE_QUERY_CONCURRENCY) {
+    await Promise.all(
+      nodes
+        .slice(i, i + ROLE_QUERY_CONCURRENCY)
+        .flatMap((node) => [
+          scanRelation(node, "roles", (batch) =>
+            node.children.push(...batch.map((child) => child.get("name")))
+          ),
+          scanRelation(node, "users", (batch) =>
+            node.userIds.push(...batch.map((user) => user.id))
+          ),
+        ])
+    );
+  }
+  for (const node of nodes) {
+    for (const child of node.children) {
+      graph.get(child)?.parents.push(node.name);
+    }
+  }
+  return { graph, truncated };
+}
+
+// Every role reachable from `name` through child roles, including itself
+function roleDescendants(graph: Map<string, RoleNode>, name: string) {
+  const seen = new Set<string>();
+  const stack = [name];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (!seen.has(current)) {
+      seen.add(current);
+      stack.push(...(graph.get(current)?.children || []));
+    }
+  }
+  return seen;
+}
+
+/**
+ * Returns the effective members of a role: its own users, then the users of
+ * every role reachable through its "roles" relation (labelled with `via`).
+ * Each role is visited once, so cycles in the hierarchy are harmless.
+ */
+async function getRoleMembers(
+  profile: ParseProfile,
+  role: ParseSDK.Role
+): Promise<Record<string, unknown>[]> {
+  const members = new Map<string, Record<string, unknown>>();
+  const visited = new Set<string>([role.id]);
+  let level = [role];
+  while (level.length > 0) {
+    const next: ParseSDK.Role[] = [];
+    for (const current of level) {
+      const users = await current
+        .getUsers()
+        .query()
+        .limit(1000)
+        .find({ useMasterKey: !!profile.masterKey });
+      for (const user of users.filter((user) => !members.has(user.id))) {
+        members.set(
+          user.id,
+          current.id === role.id
+            ? { ...user.toJSON(), membership: "direct" }
+            : {
+                ...user.toJSON(),
+                membership: "inherited",
+                via: current.getName(),
+              }
+        );
+      }
+      const children = await current
+        .getRoles()
+        .query()
+        .limit(1000)
+        .find({ useMasterKey: !!profile.masterKey });
+      for (const child of children.filter((child) => !visited.has(child.id))) {
+        visited.add(child.id);
+        next.push(child);
+      }
+    }
+    level = next;
+  }
+  return [...members.values()];
+}
+
+function findRoleCycles(graph: Map<string, RoleNode>): string[][] {
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const visit = (name: string, path: string[]) => {
+    const index = path.indexOf(name);
+    if (index >= 0) {
+      cycles.push([...path.slice(index), name]);
+      return;
+    }
+    if (done.has(name)) {
+      return;
+    }
+    for (const child of graph.get(name)?.children || []) {
+      visit(child, [...path, name]);
+    }
+    done.add(name);
+  };
+  graph.forEach((_, name) => visit(name, []));
+  return cycles;
+}
+
+/**
+ * Role hierarchy report for get_role_tree: inheritance tree, effective users,
+ * each user's roles, cycles and roles without users.
+ */
+async function describeRoleTree(
+  profile: ParseProfile,
+  userFilter?: string
+): Promise<unknown> {
+  const { graph, truncated } = await loadRoleGraph(profile);
+  const effectiveUsers = (name: string) =>
+    new Set(
+      [...roleDescendants(graph, name)].flatMap(
+        (role) => graph.get(role)?.userIds || []
+      )
+    );
+
+  const toTree = (name: string, path: string[]): unknown => {
+    const node = graph.get(name)!;
+    if (path.includes(name)) {
+      return { name, cycle: true };
+    }
+    return {
+      name,
+      users: node.userIds.length,
+      children: node.children
+        .filter((child) => graph.has(child))
+        .map((child) => toTree(child, [...path, name])),
+    };
+  };
+
+  // Each user's roles: direct membership, or inherited through a child role
+  const userRoles = new Map<
+    string,
+    { direct: string[]; inherited: string[] }
+  >();
+  for (const node of graph.values()) {
+    for (const userId of effectiveUsers(node.name)) {
+      const entry = userRoles.get(userId) || { direct: [], inherited: [] };
+      (node.userIds.includes(userId) ? entry.direct : entry.inherited).push(
+        node.name
+      );
+      userRoles.set(userId, entry);
+    }
+  }
+
+  let userIds = [...userRoles.keys()];
+  if (userFilter) {
+    const user = await findUser(profile, userFilter);
+    if (!user) {
+      return { error: `User "${userFilter}" not found` };
+    }
+    userIds = [user.id];
+  }
+  const usernames = new Map<string, string>();
+  if (userIds.length > 0) {
+    const query = new profile.Parse.Query(profile.Parse.User);
+    query.containedIn("objectId", userIds);
+    query.limit(userIds.length);
+    const users = await query.find({ useMasterKey: !!profile.masterKey });
+    users.forEach((user) => usernames.set(user.id, user.get("username")));
+  }
+
+  const nodes = [...graph.values()];
+  return {
+    totalRoles: graph.size,
+    roles: nodes.map((node) => ({
+      name: node.name,
+      objectId: node.objectId,
+      parents: node.parents,
+      children: node.children,
+      directUsers: node.userIds.length,
+      effectiveUsers: effectiveUsers(node.name).size,
+    })),
+    tree: nodes
+      .filter((node) => node.parents.length === 0)
+      .map((node) => toTree(node.name, [])),
+    userRoles: userIds.map((userId) => ({
+      userId,
+      username: usernames.get(userId),
+      ...(userRoles.get(userId) || { direct: [], inherited: [] }),
+    })),
+    cycles: findRoleCycles(graph),
+    emptyRoles: nodes
+      .filter((node) => effectiveUsers(node.name).size === 0)
+      .map((node) => node.name),
+    truncated,
+    note: truncated
+      ? `Members of a child role inherit the permissions of its parents. The hierarchy is incomplete: only the first ${MAX_GRAPH_ROLES} roles and ${MAX_ROLE_MEMBERS} users or child roles per role were loaded.`
+      : "Members of a child role inherit the permissions of its parents.",
+  };
+}
+
+async function previewRoleDeletion(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const name = args.name as string;
+  const { graph, truncated } = await loadRoleGraph(profile);
+  const node = graph.get(name);
+  if (!node) {
+    return { error: `Role "${name}" not found` };
+  }
+  return {
+    dryRun: true,
+    tool: "delete_role",
+    role: name,
+    directUsers: node.userIds.length,
+    childRoles: node.children,
+    parentRoles: node.parents,
+    summary: `Role ${name} would be deleted. ${node.userIds.length} direct members and the members of ${node.children.length} child roles lose the permissions granted through it${node.parents.length > 0 ? ` and through its parents (${node.parents.join(", ")})` : ""}.`,
+    truncated,
+    note: `Dry run: nothing was deleted. ACLs and class-level permissions that mention role:${name} are not changed.${truncated ? ` The role hierarchy has more than ${MAX_GRAPH_ROLES} roles or ${MAX_ROLE_MEMBERS} members in a role, so these counts may be incomplete.` : ""}`,
+  };
+}
+
+// ============================================================================
+// User Administration
+// ============================================================================
+
+// Fields update_user refuses to write: passwords go through the reset flow
+const USER_UPDATE_BLOCKED_FIELDS = new Set([
+  "password",
+  "sessionToken",
+  "authData",
+  "objectId",
+  "createdAt",
+  "updatedAt",
+]);
+
+async function requireUser(
+  profile: ParseProfile,
+  idOrUsernameOrEmail: string
+): Promise<ParseSDK.User> {
+  const user = await findUser(profile, idOrUsernameOrEmail);
+  if (!user) {
+    throw new Error(`User "${idOrUsernameOrEmail}" not found`);
+  }
+  return user;
+}
+
+// A user's JSON without its session token and auth data
+function describeUser(user: ParseSDK.User) {
+  const { sessionToken, authData, ...json } = user.toJSON() as Record<
+    string,
+    unknown
+  >;
+  return {
+    ...json,
+    authProviders: Object.keys((authData as object) || {}),
+  };
+}
+
+async function getUserSessions(
+  profile: ParseProfile,
+  user: ParseSDK.User,
+  includeExpired = true
+): Promise<ParseSDK.Session[]> {
+  const query = new profile.Parse.Query(profile.Parse.Session);
+  query.equalTo("user", user);
+  query.descending("createdAt");
+  query.limit(1000);
+  const sessions = await query.find({ useMasterKey: !!profile.masterKey });
+  return includeExpired
+    ? sessions
+    : sessions.filter((session) => !isSessionExpired(session));
+}
+
+function isSessionExpired(session: ParseSDK.Session): boolean {
+  const expiresAt = session.get("expiresAt") as Date | undefined;
+  return !!expiresAt && expiresAt.getTime() <= Date.now();
+}
+
+// A session without its token
+function describeSession(session: ParseSDK.Session) {
+  return {
+    objectId: session.id,
+    createdAt: session.createdAt?.toISOString(),
+    expiresAt: (session.get("expiresAt") as Date | undefined)?.toISOString(),
+    expired: isSessionExpired(session),
+    installationId: session.get("installationId"),
+    createdWith: session.get("createdWith"),
+    restricted: session.get("restricted"),
+  };
+}
+
+/**
+ * Plan for update_user, set_user_disabled and revoke_user_sessions. Nothing
+ * is changed.
+ */
+async function previewUserChange(
+  profile: ParseProfile,
+  name: string,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const user = await requireUser(profile, args.user as string);
+  const before = user.toJSON() as Record<string, unknown>;
+  const base = {
+    dryRun: true,
+    tool: name,
+    objectId: user.id,
+    username: user.get("username"),
+  };
+
+  switch (name) {
+    case "update_user":
+      return {
+        ...base,
+        changes: diffFields(before, {
+          ...before,
+          ...(args.data as Record<string, unknown>),
+        }),
+        note: "Dry run: nothing was saved.",
+      };
+
+    case "set_user_disabled": {
+      const sessions = args.disabled
+        ? await getUserSessions(profile, user)
+        : [];
+      return {
+        ...base,
+        changes: diffFields(
+          { disabled: before.disabled },
+          { disabled: !!args.disabled }
+        ),
+        sessionsToRevoke: sessions.length,
+        note: "Dry run: nothing was saved.",
+      };
+    }
+
+    default: {
+      // revoke_user_sessions
+      const sessionIds = args.sessionIds as string[] | undefined;
+      const sessions = (await getUserSessions(profile, user)).filter(
+        (session) => !sessionIds || sessionIds.includes(session.id)
+      );
+      return {
+        ...base,
+        sessionsToRevoke: sessions.map(describeSession),
+        note: "Dry run: nothing was revoked.",
+      };
+    }
+  }
+}
+
+// ============================================================================
+// Sessions and Installations
+// ============================================================================
+
+// Device types that need a deviceToken to receive pushes
+const PUSH_DEVICE_TYPES = new Set(["ios", "android", "osx", "tvos", "web"]);
+
+// Shows only the start of a device token
+function maskToken(token: unknown): string | undefined {
+  return typeof token === "string" ? `${token.slice(0, 8)}…` : undefined;
+}
+
+function describeUserPointer(user: unknown) {
+  const pointer = user as ParseSDK.Object | undefined;
+  if (!pointer?.id) {
+    return undefined;
+  }
+  return { objectId: pointer.id, username: pointer.get("username") };
+}
+
+function countBy<T>(items: T[], key: (item: T) => unknown[]) {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    for (const value of key(item)) {
+      const name =
+        value === undefined || value === null ? "(none)" : String(value);
+      counts[name] = (counts[name] || 0) + 1;
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(counts).sort(([, a], [, b]) => b - a)
+  );
+}
+
+async function querySessions(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const { Parse } = profile;
+  const query = new Parse.Query(Parse.Session);
+  if (args.where) {
+    query.withJSON({ where: args.where as Record<string, unknown> });
+  }
+  if (args.user) {
+    query.equalTo("user", await requireUser(profile, args.user as string));
+  }
+  const matched = await query.count({ useMasterKey: true });
+  const active = Parse.Query.or(
+    new Parse.Query(Parse.Session).greaterThan("expiresAt", new Date()),
+    new Parse.Query(Parse.Session).doesNotExist("expiresAt")
+  );
+  const activeCount = await Parse.Query.and(query, active).count({
+    useMasterKey: true,
+  });
+
+  const results = args.includeExpired ? query : Parse.Query.and(query, active);
+  results.include("user");
+  results.descending("createdAt");
+  results.limit(Math.min((args.limit as number) || 100, 1000));
+  const sessions = await results.find({ useMasterKey: true });
+  return {
+    matched,
+    active: activeCount,
+    expired: matched - activeCount,
+    sessions: sessions.map((session) => ({
+      ...describeSession(session),
+      user: describeUserPointer(session.get("user")),
+    })),
+  };
+}
+
+/**
+ * Scans installations, groups them and flags stale ones, device tokens
+ * shared by several installations and push devices without a token.
+ */
+async function queryInstallations(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const userField = (args.userField as string) || "user";
+  const where: Record<string, unknown>[] = args.where
+    ? [args.where as Record<string, unknown>]
+    : [];
+  if (args.user) {
+    const user = await requireUser(profile, args.user as string);
+    where.push({
+      [userField]: { __type: "Pointer", className: "_User", objectId: user.id },
+    });
+  }
+  if (args.deviceType) {
+    where.push({ deviceType: args.deviceType });
+  }
+  if (args.channel) {
+    where.push({ channels: args.channel });
+  }
+
+  const installations: ParseSDK.Object[] = [];
+  const { scanned, nextCursor } = await scanQuery(
+    profile,
+    {
+      className: "_Installation",
+      where: where.length > 1 ? { $and: where } : where[0],
+      order: "-createdAt",
+      include: [userField],
+    },
+    clampMaxObjects(args.maxObjects),
+    (batch) => {
+      installations.push(...batch);
+    }
+  );
+
+  const staleDays = (args.staleDays as number) || 90;
+  const staleBefore = Date.now() - staleDays * 24 * 60 * 60 * 1000;
+  const byToken = new Map<string, ParseSDK.Object[]>();
+  for (const installation of installations) {
+    const token = installation.get("deviceToken");
+    if (token) {
+      byToken.set(token, [...(byToken.get(token) || []), installation]);
+    }
+  }
+
+  const issuesOf = (installation: ParseSDK.Object): string[] => {
+    const issues: string[] = [];
+    const updatedAt = installation.updatedAt || installation.createdAt;
+    if (updatedAt && updatedAt.getTime() < staleBefore) {
+      issues.push(`stale: not updated for more than ${staleDays} days`);
+    }
+    const token = installation.get("deviceToken");
+    const sharing = token ? byToken.get(token)! : [];
+    if (sharing.length > 1) {
+      // Scanned newest first, so the first one is the current registration
+      issues.push(
+        sharing[0] === installation
+          ? `duplicate: ${sharing.length - 1} older installation${sharing.length === 2 ? "" : "s"} share this device token`
+          : `duplicate: older registration of a device token used by ${sharing[0].id}`
+      );
+    }
+    if (!token && PUSH_DEVICE_TYPES.has(installation.get("deviceType"))) {
+      issues.push("no deviceToken: this device can't receive pushes");
+    }
+    return issues;
+  };
+
+  const describe = (installation: ParseSDK.Object) => ({
+    objectId: installation.id,
+    deviceType: installation.get("deviceType"),
+    installationId: installation.get("installationId"),
+    deviceToken: maskToken(installation.get("deviceToken")),
+    pushType: installation.get("pushType"),
+    channels: installation.get("channels"),
+    appVersion: installation.get("appVersion"),
+    appIdentifier: installation.get("appIdentifier"),
+    timeZone: installation.get("timeZone"),
+    badge: installation.get("badge"),
+    user: describeUserPointer(installation.get(userField)),
+    createdAt: installation.createdAt?.toISOString(),
+    updatedAt: installation.updatedAt?.toISOString(),
+    issues: issuesOf(installation),
+  });
+
+  const flagged = installations.filter((item) => issuesOf(item).length > 0);
+  return {
+    scanned,
+    truncated: !!nextCursor,
+    byChannel: countBy(installations, (item) =>
+      (item.get("channels") as string[] | undefined)?.length
+        ? item.get("channels")
+        : [undefined]
+    ),
+    byAppVersion: countBy(installations, (item) => [item.get("appVersion")]),
+    byDeviceType: countBy(installations, (item) => [item.get("deviceType")]),
+    issues: {
+      stale: installations.filter((item) =>
+        issuesOf(item).some((issue) => issue.startsWith("stale"))
+      ).length,
+      duplicateTokens: [...byToken.values()].filter((group) => group.length > 1)
+        .length,
+      missingDeviceToken: installations.filter((item) =>
+        issuesOf(item).some((issue) => issue.startsWith("no deviceToken"))
+      ).length,
+      flagged: flagged.slice(0, 20).map(describe),
+    },
+    installations: installations
+      .slice(0, Math.min((args.limit as number) || 50, 1000))
+      .map(describe),
+  };
+}
+
+// ============================================================================
+// Push Notifications
+// ============================================================================
+
+// Device types counted separately in the push preview
+const PREVIEW_DEVICE_TYPES = [
+  "ios",
+  "osx",
+  "tvos",
+  "watchos",
+  "android",
+  "web",
+  "win",
+  "winphone",
+  "dotnet",
+  "expo",
+];
+
+const PUSH_AUDIENCE_REQUIRED =
+  "Give non-empty channels or a where query, or set allInstallations: true to send to every installation";
+
+/**
+ * The _Installation constraints a send_push call targets. Empty channels and
+ * an empty where count as missing: without them the audience is everyone,
+ * which needs allInstallations: true, and undefined is returned otherwise.
+ */
+function pushAudience(
+  args: Record<string, unknown>
+): Record<string, unknown> | undefined {
+  const channels = (args.channels as string[] | undefined) || [];
+  const where = (args.where as Record<string, unknown>) || {};
+  const constraints = [
+    ...(Object.keys(where).length > 0 ? [where] : []),
+    ...(channels.length > 0 ? [{ channels: { $in: channels } }] : []),
+  ];
+  if (constraints.length === 0) {
+    return args.allInstallations === true ? {} : undefined;
+  }
+  return constraints.length === 1 ? constraints[0] : { $and: constraints };
+}
+
+/**
+ * Counts the installations a push would reach, by device type. Parse Server
+ * only delivers to installations with a device token (or web subscription).
+ */
+async function previewPush(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const audience = pushAudience(args);
+  if (!audience) {
+    return { error: PUSH_AUDIENCE_REQUIRED };
+  }
+  const count = (constraint?: Record<string, unknown>) => {
+    const query = new profile.Parse.Query("_Installation");
+    query.withJSON({
+      where: constraint ? { $and: [audience, constraint] } : audience,
+    });
+    return query.count({ useMasterKey: !!profile.masterKey });
+  };
+  const matched = await count();
+  const withDeviceToken = await count({ deviceToken: { $exists: true } });
+  const byDeviceType: Record<string, number> = {};
+  for (const deviceType of PREVIEW_DEVICE_TYPES) {
+    const typeCount = await count({ deviceType });
+    if (typeCount > 0) {
+      byDeviceType[deviceType] = typeCount;
+    }
+  }
+  const other =
+    matched - Object.values(byDeviceType).reduce((sum, n) => sum + n, 0);
+  if (other > 0) {
+    byDeviceType.other = other;
+  }
+  return {
+    dryRun: true,
+    tool: "send_push",
+    audience,
+    allInstallations: Object.keys(audience).length === 0 || undefined,
+    matchedInstallations: matched,
+    withDeviceToken,
+    byDeviceType,
+    data: args.data,
+    push_time: args.push_time,
+    expiration_time: args.expiration_time,
+    warning:
+      matched === 0
+        ? "No installation matches this audience: nothing would be delivered."
+        : undefined,
+    note: "Preview only: nothing was sent.",
+  };
+}
+
+function describePushStatus(status: ParseSDK.Object) {
+  const parseJSON = (value: unknown) => {
+    try {
+      return typeof value === "string" ? JSON.parse(value) : value;
+    } catch {
+      return value;
+    }
+  };
+  return {
+    objectId: status.id,
+    createdAt: status.createdAt?.toISOString(),
+    pushTime: status.get("pushTime"),
+    expiry: status.get("expiry"),
+    source: status.get("source"),
+    status: status.get("status"),
+    numSent: status.get("numSent") || 0,
+    numFailed: status.get("numFailed") || 0,
+    sentPerType: status.get("sentPerType"),
+    failedPerType: status.get("failedPerType"),
+    audience: parseJSON(status.get("query")),
+    payload: parseJSON(status.get("payload")),
+    errorMessage: status.get("errorMessage"),
+  };
+}
+
+// ============================================================================
+// Cloud Code
+// ============================================================================
+
+// Fields read from _JobStatus, so polling stays cheap
+const JOB_STATUS_KEYS = [
+  "jobName",
+  "status",
+  "message",
+  "params",
+  "source",
+  "finishedAt",
+];
+
+/**
+ * Collects the jobs, job schedules and webhooks the server reports, plus
+ * the functions already called through run_cloud_function. A source that
+ * fails (e.g. hooks disabled) is reported without failing the others.
+ */
+async function listCloudFunctions(profile: ParseProfile): Promise<unknown> {
+  const errors: Record<string, string> = {};
+  const load = async <T>(
+    source: string,
+    path: string
+  ): Promise<T | undefined> => {
+    try {
+      return await parseRequest<T>(profile, "GET", path);
+    } catch (error) {
+      errors[source] = error instanceof Error ? error.message : String(error);
+      return undefined;
+    }
+  };
+
+  const jobsData = await load<{ jobs?: string[]; in_use?: string[] }>(
+    "jobs",
+    "cloud_code/jobs/data"
+  );
+  const schedules = await load<Record<string, unknown>[]>(
+    "scheduledJobs",
+    "cloud_code/jobs"
+  );
+  const webhookFunctions = await load<Record<string, unknown>[]>(
+    "webhookFunctions",
+    "hooks/functions"
+  );
+  const webhookTriggers = await load<Record<string, unknown>[]>(
+    "webhookTriggers",
+    "hooks/triggers"
+  );
+
+  const recentlyCalled = [
+    ...new Set(
+      auditBuffer
+        .filter(
+          (entry) =>
+            entry.tool === "run_cloud_function" &&
+            entry.outcome === "success" &&
+            entry.environment === profile.name
+        )
+        .map((entry) => entry.arguments.functionName as string)
+    ),
+  ];
+
+  return {
+    jobs: jobsData?.jobs,
+    jobsWithSchedule: jobsData?.in_use,
+    scheduledJobs: schedules?.map((schedule) => ({
+      objectId: schedule.objectId,
+      jobName: schedule.jobName,
+      description: schedule.description,
+      startAfter: schedule.startAfter,
+      repeatMinutes: schedule.repeatMinutes,
+      timeOfDay: schedule.timeOfDay,
+      daysOfWeek: schedule.daysOfWeek,
+    })),
+    webhookFunctions,
+    webhookTriggers,
+    recentlyCalled,
+    errors: Object.keys(errors).length > 0 ? errors : undefined,
+    note: "Functions defined with Parse.Cloud.define aren't listed by Parse Server. Ask the user or check the Cloud Code source for other names.",
+  };
+}
+
+function describeJobStatus(status: ParseSDK.Object) {
+  const startedAt = status.createdAt;
+  const finishedAt = status.get("finishedAt") as Date | undefined;
+  return {
+    jobStatusId: status.id,
+    jobName: status.get("jobName"),
+    status: status.get("status"),
+    message: status.get("message"),
+    params: status.get("params"),
+    source: status.get("source"),
+    startedAt: startedAt?.toISOString(),
+    finishedAt: finishedAt?.toISOString(),
+    durationMs:
+      startedAt && status.get("status") !== "running"
+        ? (finishedAt || status.updatedAt || startedAt).getTime() -
+          startedAt.getTime()
+        : undefined,
+    runningForMs:
+      startedAt && status.get("status") === "running"
+        ? Date.now() - startedAt.getTime()
+        : undefined,
+  };
+}
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+interface FunctionHook {
+  functionName: string;
+  url: string;
+}
+
+interface TriggerHook {
+  className: string;
+  triggerName: string;
+  url: string;
+}
+
+// REST path of the function or trigger webhook an update/delete refers to
+function hookPath(args: Record<string, unknown>): string {
+  if (args.functionName) {
+    return `hooks/functions/${encodeURIComponent(args.functionName as string)}`;
+  }
+  if (args.className && args.triggerName) {
+    return `hooks/triggers/${encodeURIComponent(args.className as string)}/${encodeURIComponent(args.triggerName as string)}`;
+  }
+  throw new Error("Give functionName, or className and triggerName");
+}
+
+/**
+ * Plan for update_hook and delete_hook: the webhook as it is now and, for an
+ * update, the URL it would point to. Nothing is changed.
+ */
+async function previewHookChange(
+  profile: ParseProfile,
+  name: string,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const current = await parseRequest<{ url?: string }>(
+    profile,
+    "GET",
+    hookPath(args)
+  );
+  return {
+    dryRun: true,
+    tool: name,
+    hook: current,
+    ...(name === "update_hook"
+      ? { changes: diffFields({ url: current.url }, { url: args.url }) }
+      : {
+          summary:
+            "The webhook would be unregistered: calls to it stop reaching its URL.",
+        }),
+    note: "Dry run: nothing was changed.",
+  };
+}
+
+/**
+ * Flags webhooks that can't work: URLs that don't respond or answer with a
+ * server error, and triggers on classes that aren't in the schema.
+ */
+async function diagnoseHooks(
+  profile: ParseProfile,
+  functions: FunctionHook[],
+  triggers: TriggerHook[]
+) {
+  const issues: {
+    severity: "high" | "medium" | "low";
+    hook: string;
+    url: string;
+    issue: string;
+  }[] = [];
+
+  const schemas = (await profile.Parse.Schema.all()) as unknown as {
+    className: string;
+  }[];
+  const classNames = new Set(schemas.map((schema) => schema.className));
+  for (const trigger of triggers) {
+    if (!classNames.has(trigger.className)) {
+      issues.push({
+        severity: "medium",
+        hook: `${trigger.triggerName} ${trigger.className}`,
+        url: trigger.url,
+        issue: `Class ${trigger.className} doesn't exist in the schema`,
+      });
+    }
+  }
+
+  const hooks = [
+    ...functions.map((hook) => ({
+      hook: `function ${hook.functionName}`,
+      url: hook.url,
+    })),
+    ...triggers.map((hook) => ({
+      hook: `${hook.triggerName} ${hook.className}`,
+      url: hook.url,
+    })),
+  ];
+  const urls = [...new Set(hooks.map((hook) => hook.url))];
+  const probes = new Map<string, UrlProbe>();
+  for (let i = 0; i < urls.length; i += FILE_CHECK_CONCURRENCY) {
+    const chunk = urls.slice(i, i + FILE_CHECK_CONCURRENCY);
+    const results = await Promise.all(chunk.map((url) => probeUrl(url)));
+    chunk.forEach((url, index) => probes.set(url, results[index]));
+  }
+  for (const { hook, url } of hooks) {
+    const probe = probes.get(url)!;
+    // Webhooks only answer POST, so any HTTP response means the host is up
+    if (probe.status === undefined) {
+      issues.push({
+        severity: "high",
+        hook,
+        url,
+        issue: `URL is unreachable: ${probe.error}`,
+      });
+    } else if (probe.status >= 500) {
+      issues.push({
+        severity: "medium",
+        hook,
+        url,
+        issue: `URL answers with HTTP ${probe.status}`,
+      });
+    }
+  }
+
+  return {
+    checkedUrls: urls.length,
+    issues,
+    healthy: issues.length === 0,
+  };
+}
+
+// ============================================================================
+// Server Logs
+// ============================================================================
+
+// Lines requested from /scriptlog when filtering on our side
+const LOG_SCAN_SIZE = 1000;
+// Clock difference tolerated when linking log lines to tool calls
+const LOG_CORRELATION_MARGIN_MS = 5000;
+
+interface LogLine {
+  timestamp: string;
+  level: string;
+  message: string;
+  [key: string]: unknown;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// The time a tool call ran, from its audit entry (timestamped when it ended)
+function auditEntryWindow(entry: AuditEntry, marginMs: number) {
+  const end = new Date(entry.timestamp).getTime();
+  return { from: end - entry.durationMs - marginMs, until: end + marginMs };
+}
+
+/**
+ * Reads /scriptlog and filters it by text and cloud function. Each line is
+ * linked to the failed tool calls that ran when it was logged, and the time
+ * window can be centered on one call (auditEntryId or failedTool).
+ */
+async function getServerLogs(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const failures = auditBuffer.filter(
+    (entry) => entry.environment === profile.name && entry.outcome === "error"
+  );
+
+  let call: AuditEntry | undefined;
+  if (args.auditEntryId) {
+    // Entries of other environments ran against another server's logs
+    call = auditBuffer.find(
+      (entry) =>
+        entry.id === args.auditEntryId && entry.environment === profile.name
+    );
+    if (!call) {
+      return {
+        error: `Audit entry ${args.auditEntryId} not found in environment "${profile.name}"`,
+      };
+    }
+  } else if (args.failedTool) {
+    call = failures.filter((entry) => entry.tool === args.failedTool).pop();
+    if (!call) {
+      return { error: `No failed ${args.failedTool} call in the audit log` };
+    }
+  }
+
+  let from = args.from ? new Date(args.from as string).getTime() : undefined;
+  let until = args.until ? new Date(args.until as string).getTime() : undefined;
+  for (const [key, time] of [
+    ["from", from],
+    ["until", until],
+  ] as const) {
+    if (time !== undefined && Number.isNaN(time)) {
+      return { error: `${key} is not a valid date: ${args[key]}` };
+    }
+  }
+  if (from !== undefined && until !== undefined && from > until) {
+    return { error: "from must be before until" };
+  }
+  if (call) {
+    const window = auditEntryWindow(
+      call,
+      ((args.windowSeconds as number) || 60) * 1000
+    );
+    from = window.from;
+    until = window.until;
+  }
+  const functionName =
+    (args.functionName as string | undefined) ||
+    (call?.tool === "run_cloud_function"
+      ? (call.arguments.functionName as string)
+      : undefined);
+
+  const limit = Math.min((args.limit as number) || 50, 500);
+  const filtered = !!(args.search || functionName);
+  const params = new URLSearchParams({
+    level: (args.level as string) || "info",
+    size: String(filtered ? LOG_SCAN_SIZE : limit),
+    order: "desc",
+  });
+  if (from !== undefined) {
+    params.set("from", new Date(from).toISOString());
+  }
+  if (until !== undefined) {
+    params.set("until", new Date(until).toISOString());
+  }
+  const logs = await parseRequest<LogLine[]>(
+    profile,
+    "GET",
+    `scriptlog?${params}`
+  );
+
+  const search = (args.search as string | undefined)?.toLowerCase();
+  // Parse Server logs "Ran cloud function x" and "Failed running cloud function x"
+  const functionPattern = functionName
+    ? new RegExp(`function ${escapeRegExp(functionName)}\\b`)
+    : undefined;
+  const lines = logs.filter(
+    (line) =>
+      (!search || String(line.message).toLowerCase().includes(search)) &&
+      (!functionPattern || functionPattern.test(String(line.message)))
+  );
+
+  return {
+    call: call && {
+      id: call.id,
+      timestamp: call.timestamp,
+      tool: call.tool,
+      error: call.error,
+    },
+    window: {
+      from: from !== undefined ? new Date(from).toISOString() : undefined,
+      until: until !== undefined ? new Date(until).toISOString() : undefined,
+    },
+    total: lines.length,
+    lines: lines.slice(0, limit).map((line) => {
+      const time = new Date(line.timestamp).getTime();
+      const relatedCalls = failures
+        .filter((entry) => {
+          const window = auditEntryWindow(entry, LOG_CORRELATION_MARGIN_MS);
+          return time >= window.from && time <= window.until;
+        })
+        .map((entry) => ({
+          id: entry.id,
+          tool: entry.tool,
+          error: entry.error,
+        }));
+      return {
+        ...line,
+        relatedCalls: relatedCalls.length > 0 ? relatedCalls : undefined,
+      };
+    }),
+    note:
+      logs.length === 0
+        ? "No log lines: the window may be empty, or the server doesn't use the default file logger (logs disabled or sent elsewhere)."
+        : undefined,
+  };
+}
+
+// ============================================================================
+// Server Capabilities
+// ============================================================================
+
+interface ServerInfo {
+  checkedAt: string;
+  parseServerVersion?: string;
+  features?: Record<string, Record<string, unknown>>;
+  database: "mongodb" | "postgres" | "other" | "unknown";
+  errors?: Record<string, string>;
+}
+
+// Tool → the /serverInfo feature it needs ([group, flag])
+const TOOL_FEATURES: Record<string, [string, string]> = {
+  send_push: ["push", "immediatePush"],
+  get_push_status: ["push", "storedPushData"],
+  get_server_logs: ["logs", "from"],
+  list_hooks: ["hooks", "read"],
+  create_function_hook: ["hooks", "create"],
+  create_trigger_hook: ["hooks", "create"],
+  update_hook: ["hooks", "update"],
+  delete_hook: ["hooks", "delete"],
+  run_job: ["cloudCode", "jobs"],
+  get_job_status: ["cloudCode", "jobs"],
+  get_config: ["globalConfig", "read"],
+  update_config: ["globalConfig", "update"],
+  create_class: ["schemas", "addClass"],
+  delete_class: ["schemas", "removeClass"],
+  add_field: ["schemas", "addField"],
+  delete_field: ["schemas", "removeField"],
+  set_class_permissions: ["schemas", "editClassLevelPermissions"],
+};
+
+/**
+ * Reads /serverInfo and detects the database with an explained query: MongoDB
+ * returns a query planner, Postgres a "QUERY PLAN". Failures are recorded on
+ * the result instead of thrown, so detection never breaks a tool call.
+ */
+async function detectServerInfo(profile: ParseProfile): Promise<ServerInfo> {
+  const info: ServerInfo = {
+    checkedAt: new Date().toISOString(),
+    database: "unknown",
+  };
+  const errors: Record<string, string> = {};
+  try {
+    const response = await parseRequest<{
+      parseServerVersion?: string;
+      features?: ServerInfo["features"];
+    }>(profile, "GET", "serverInfo");
+    info.parseServerVersion = response.parseServerVersion;
+    info.features = response.features;
+  } catch (error) {
+    errors.serverInfo = error instanceof Error ? error.message : String(error);
+  }
+
+  try {
+    const query = new profile.Parse.Query("_User");
+    query.explain(true);
+    query.limit(1);
+    const plan = JSON.stringify(
+      await query.find({ useMasterKey: !!profile.masterKey })
+    );
+    info.database = plan.includes("queryPlanner")
+      ? "mongodb"
+      : plan.includes("QUERY PLAN")
+        ? "postgres"
+        : "other";
+  } catch (error) {
+    errors.database = error instanceof Error ? error.message : String(error);
+  }
+
+  if (Object.keys(errors).length > 0) {
+    info.errors = errors;
+  }
+  profile.serverInfo = info;
+  notifyToolListChanged();
+  return info;
+}
+
+/**
+ * Tells the client to fetch tools/list again: the tools shown depend on the
+ * active environment and on what its server supports. Dropped when no client
+ * is connected yet.
+ */
+function notifyToolListChanged(): void {
+  server.sendToolListChanged().catch(() => undefined);
+}
+
+// Why the server can't run a tool, or undefined when it can (or isn't known)
+function unsupportedReason(
+  name: string,
+  info: ServerInfo | undefined
+): string | undefined {
+  if (!info) {
+    return undefined;
+  }
+  if (name === "aggregate_class" && info.database === "other") {
+    return "aggregation needs a MongoDB or Postgres database";
+  }
+  const requirement = TOOL_FEATURES[name];
+  if (requirement) {
+    const [group, flag] = requirement;
+    if (info.features?.[group]?.[flag] === false) {
+      return name === "send_push" || name === "get_push_status"
+        ? "push is not configured on this server"
+        : `the server reports ${group}.${flag} as unavailable`;
+    }
+  }
+  return undefined;
+}
+
+function describeServerInfo(profile: ParseProfile, info: ServerInfo) {
+  return {
+    environment: profile.name,
+    parseServerVersion: info.parseServerVersion,
+    database: info.database,
+    features: info.features,
+    checkedAt: info.checkedAt,
+    errors: info.errors,
+    unsupportedTools: TOOLS.map((tool) => ({
+      tool: tool.name,
+      reason: unsupportedReason(tool.name, info),
+    })).filter((tool) => tool.reason),
+  };
+}
+
+/**
+ * Hides (MCP_UNSUPPORTED_TOOLS=hide) or annotates ("annotate") the tools the
+ * active environment's server can't run. Servers not checked yet show every
+ * tool.
+ */
+function applyServerCapabilities<
+  T extends { name: string; description: string },
+>(tools: T[], profile: ParseProfile | undefined): T[] {
+  if (MCP_UNSUPPORTED_TOOLS === "show") {
+    return tools;
+  }
+  return tools.flatMap((tool) => {
+    const reason = unsupportedReason(tool.name, profile?.serverInfo);
+    if (!reason) {
+      return [tool];
+    }
+    if (MCP_UNSUPPORTED_TOOLS === "hide") {
+      return [];
+    }
+    return [
+      {
+        ...tool,
+        description: `⚠️ **Probably unsupported on ${profile!.name}**: ${reason}.\n\n${tool.description}`,
+      },
+    ];
+  });
+}
+
+// ============================================================================
+// Query Explain
+// ============================================================================
+
+// Queries examining this many documents per result are worth an index
+const EXPLAIN_EXAMINED_RATIO = 10;
+
+// Constraints an index can serve, by how a compound index should order them
+const EQUALITY_OPERATORS = new Set(["$eq", "$in"]);
+const RANGE_OPERATORS = new Set(["$gt", "$gte", "$lt", "$lte"]);
+
+interface QueryPlanSummary {
+  database: "mongodb" | "postgres" | "unknown";
+  scanType: "collectionScan" | "indexScan" | "unknown";
+  indexesUsed: string[];
+  stages: string[];
+  docsExamined?: number;
+  keysExamined?: number;
+  returned?: number;
+  executionTimeMs?: number;
+}
+
+/**
+ * Reduces a MongoDB explain document or a Postgres EXPLAIN (FORMAT JSON)
+ * result to the stages, indexes and counts an agent needs.
+ */
+function summarizeQueryPlan(raw: unknown): QueryPlanSummary {
+  const explain = (Array.isArray(raw) ? raw[0] : raw) as
+    Record<string, unknown> | undefined;
+  const summary: QueryPlanSummary = {
+    database: "unknown",
+    scanType: "unknown",
+    indexesUsed: [],
+    stages: [],
+  };
+  if (!explain) {
+    return summary;
+  }
+
+  if (explain.queryPlanner) {
+    summary.database = "mongodb";
+    const walk = (plan: Record<string, unknown> | undefined) => {
+      if (!plan) {
+        return;
+      }
+      if (plan.stage) {
+        summary.stages.push(plan.stage as string);
+      }
+      if (plan.indexName) {
+        summary.indexesUsed.push(plan.indexName as string);
+      }
+      walk(plan.queryPlan as Record<string, unknown> | undefined);
+      walk(plan.inputStage as Record<string, unknown> | undefined);
+      for (const input of (plan.inputStages as Record<string, unknown>[]) ||
+        []) {
+        walk(input);
+      }
+    };
+    walk(
+      (explain.queryPlanner as Record<string, unknown>).winningPlan as Record<
+        string,
+        unknown
+      >
+    );
+    const stats = explain.executionStats as Record<string, number> | undefined;
+    summary.docsExamined = stats?.totalDocsExamined;
+    summary.keysExamined = stats?.totalKeysExamined;
+    summary.returned = stats?.nReturned;
+    summary.executionTimeMs = stats?.executionTimeMillis;
+    summary.scanType = summary.stages.includes("COLLSCAN")
+      ? "collectionScan"
+      : summary.stages.some((stage) => stage.includes("IXSCAN"))
+        ? "indexScan"
+        : "unknown";
+    return summary;
+  }
+
+  const queryPlan = explain["QUERY PLAN"] as
+    { Plan?: Record<string, unknown>; "Execution Time"?: number }[] | undefined;
+  if (queryPlan?.[0]?.Plan) {
+    summary.database = "postgres";
+    let examined = 0;
+    const walk = (plan: Record<string, unknown>) => {
+      const type = plan["Node Type"] as string;
+      summary.stages.push(type);
+      if (plan["Index Name"]) {
+        summary.indexesUsed.push(plan["Index Name"] as string);
+      }
+      if (type.endsWith("Scan")) {
+        examined +=
+          ((plan["Actual Rows"] as number) || 0) +
+          ((plan["Rows Removed by Filter"] as number) || 0);
+      }
+      for (const child of (plan.Plans as Record<string, unknown>[]) || []) {
+        walk(child);
+      }
+    };
+    walk(queryPlan[0].Plan);
+    summary.docsExamined = examined;
+    summary.returned = queryPlan[0].Plan["Actual Rows"] as number;
+    summary.executionTimeMs = queryPlan[0]["Execution Time"];
+    summary.scanType = summary.stages.includes("Seq Scan")
+      ? "collectionScan"
+      : summary.stages.some((stage) => stage.includes("Index"))
+        ? "indexScan"
+        : "unknown";
+  }
+  return summary;
+}
+
+/**
+ * The fields of a compound index serving the query, ordered equality, sort,
+ * range. Constraints an index can't serve well ($regex, $exists, $ne...) and
+ * $or branches are left out.
+ */
+function indexFieldsForQuery(
+  where: Record<string, unknown>,
+  order: string | undefined
+): { keys: [string, 1 | -1][]; ignored: string[] } {
+  const equality: string[] = [];
+  const range: string[] = [];
+  const ignored: string[] = [];
+  const collect = (constraints: Record<string, unknown>) => {
+    for (const [field, value] of Object.entries(constraints)) {
+      if (field === "$and") {
+        (value as Record<string, unknown>[]).forEach(collect);
+        continue;
+      }
+      if (field.startsWith("$")) {
+        ignored.push(field);
+        continue;
+      }
+      const operators =
+        value && typeof value === "object" && !Array.isArray(value)
+          ? Object.keys(value).filter((key) => key.startsWith("$"))
+          : [];
+      if (operators.length === 0) {
+        equality.push(field);
+      } else if (operators.every((op) => EQUALITY_OPERATORS.has(op))) {
+        equality.push(field);
+      } else if (operators.every((op) => RANGE_OPERATORS.has(op))) {
+        range.push(field);
+      } else {
+        ignored.push(field);
+      }
+    }
+  };
+  collect(where);
+
+  const keys = new Map<string, 1 | -1>();
+  for (const field of equality) {
+    keys.set(field, 1);
+  }
+  for (const sort of (order || "").split(",").map((o) => o.trim())) {
+    if (sort && !keys.has(sort.replace(/^-/, ""))) {
+      keys.set(sort.replace(/^-/, ""), sort.startsWith("-") ? -1 : 1);
+    }
+  }
+  for (const field of range) {
+    if (!keys.has(field)) {
+      keys.set(field, 1);
+    }
+  }
+  return { keys: [...keys], ignored };
+}
+
+// Name of a field in the database: Mongo stores pointers as _p_<field>
+function storageFieldName(
+  field: string,
+  type: string | undefined,
+  database: QueryPlanSummary["database"]
+): string {
+  if (database === "postgres") {
+    return field;
+  }
+  switch (field) {
+    case "objectId":
+      return "_id";
+    case "createdAt":
+      return "_created_at";
+    case "updatedAt":
+      return "_updated_at";
+  }
+  return type === "Pointer" ? `_p_${field}` : field;
+}
+
+// Parse field name of an index key ("_p_owner" → "owner")
+function indexKeyField(key: string): string {
+  switch (key) {
+    case "_id":
+      return "objectId";
+    case "_created_at":
+      return "createdAt";
+    case "_updated_at":
+      return "updatedAt";
+  }
+  return key.replace(/^_p_/, "");
+}
+
+async function explainQuery(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const className = args.className as string;
+  const where = (args.where as Record<string, unknown>) || {};
+  const order = args.order as string | undefined;
+
+  const query = new profile.Parse.Query(className);
+  query.withJSON({ where });
+  query.limit(Math.min((args.limit as number) || 100, 1000));
+  // ascending/descending replace the order, so every key is added instead
+  for (const sort of (order || "").split(",").map((o) => o.trim())) {
+    if (sort.startsWith("-")) {
+      query.addDescending(sort.substring(1));
+    } else if (sort) {
+      query.addAscending(sort);
+    }
+  }
+  query.explain(true);
+  const rawPlan = await query.find({ useMasterKey: true });
+  const plan = summarizeQueryPlan(rawPlan);
+
+  const schema = (await new profile.Parse.Schema(
+    className
+  ).get()) as unknown as {
+    fields: Record<string, { type: string }>;
+    indexes?: Record<string, Record<string, number>>;
+  };
+  const indexes = schema.indexes || {};
+
+  const { keys, ignored } = indexFieldsForQuery(where, order);
+  // An index whose leading fields are the proposed ones already serves the query
+  const coveringIndex = Object.entries(indexes).find(
+    ([, index]) =>
+      keys.length > 0 &&
+      keys.every(
+        ([field], position) =>
+          indexKeyField(Object.keys(index)[position] || "") === field
+      )
+  )?.[0];
+
+  const inefficient =
+    plan.scanType === "collectionScan" ||
+    (plan.docsExamined !== undefined &&
+      plan.docsExamined >
+        EXPLAIN_EXAMINED_RATIO * Math.max(plan.returned || 0, 1));
+
+  let recommendation: unknown;
+  if (inefficient && keys.length > 0 && !coveringIndex) {
+    const database = plan.database === "unknown" ? "mongodb" : plan.database;
+    const index = Object.fromEntries(
+      keys.map(([field, direction]) => [
+        storageFieldName(field, schema.fields[field]?.type, database),
+        direction,
+      ])
+    );
+    const indexName = keys
+      .map(([field, direction]) => `${field}_${direction}`)
+      .join("_");
+    recommendation = {
+      index,
+      reason:
+        "Fields ordered equality first, then sort, then range, so one index serves the filter and the sort",
+      addIndexArguments: { className, indexName, index },
+      command:
+        database === "postgres"
+          ? `CREATE INDEX "${indexName}" ON "${className}" (${Object.entries(
+              index
+            )
+              .map(
+                ([field, direction]) =>
+                  `"${field}"${direction === -1 ? " DESC" : ""}`
+              )
+              .join(", ")});`
+          : `db.getCollection("${className}").createIndex(${JSON.stringify(index)}, { name: "${indexName}" })`,
+    };
+  }
+
+  return {
+    className,
+    plan,
+    indexes,
+    assessment:
+      plan.database === "unknown"
+        ? "The plan format isn't recognized; see rawPlan."
+        : !inefficient
+          ? "The query uses an index and examines few documents per result."
+          : coveringIndex
+            ? `An index (${coveringIndex}) matches the query but the database didn't use it; the class may be small or the constraints unselective.`
+            : keys.length === 0
+              ? "The query scans the class but has no constraint an index could serve."
+              : "The query examines many more documents than it returns; add the recommended index.",
+    recommendation,
+    ignoredConstraints: ignored.length > 0 ? ignored : undefined,
+    rawPlan: plan.database === "unknown" ? rawPlan : undefined,
+  };
+}
+
+// ============================================================================
+// Dry Run
+// ============================================================================
+
+// Tools that accept `dryRun: true` to preview their changes without saving
+const DRY_RUN_TOOLS = new Set([
+  "create_object",
+  "update_object",
+  "delete_object",
+  "add_to_relation",
+  "remove_from_relation",
+  "batch_create",
+  "batch_update",
+  "batch_delete",
+  "update_config",
+  "delete_field",
+  "drop_index",
+  "delete_class",
+  "set_class_permissions",
+  "set_object_acl",
+  "bulk_set_object_acl",
+  "delete_role",
+  "update_user",
+  "set_user_disabled",
+  "revoke_user_sessions",
+  "send_push",
+]);
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface PointerRef {
+  field: string;
+  className: string;
+  objectId: string;
+}
+
+/**
+ * JSON serialization with sorted object keys, so that equal values always
+ * produce the same string.
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return canonicalJSON(a) === canonicalJSON(b);
+}
+
+/**
+ * Computes the value a field will have once a requested change is applied,
+ * following Parse's `__op` semantics. Returns undefined for deleted fields.
+ */
+function applyFieldChange(current: unknown, value: unknown): unknown {
+  if (!value || typeof value !== "object" || !("__op" in value)) {
+    return value;
+  }
+  const op = value as { __op: string; amount?: number; objects?: unknown[] };
+  const currentArray = Array.isArray(current) ? current : [];
+  switch (op.__op) {
+    case "Increment":
+      return (typeof current === "number" ? current : 0) + (op.amount ?? 1);
+    case "Add":
+      return [...currentArray, ...(op.objects || [])];
+    case "AddUnique":
+      return (op.objects || []).reduce<unknown[]>(
+        (result, item) =>
+          result.some((existing) => isSameValue(existing, item))
+            ? result
+            : [...result, item],
+        [...currentArray]
+      );
+    case "Remove":
+      return currentArray.filter(
+        (existing) =>
+          !(op.objects || []).some((item) => isSameValue(existing, item))
+      );
+    case "Delete":
+      return undefined;
+    default:
+      // Relation and batch operations can't be simulated on the field value
+      return value;
+  }
+}
+
+function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter((field) => !isSameValue(before[field], after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+function applyData(
+  before: Record<string, unknown>,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const after = { ...before };
+  for (const [key, value] of Object.entries(data)) {
+    const next = applyFieldChange(before[key], value);
+    if (next === undefined) {
+      delete after[key];
+    } else {
+      after[key] = next;
+    }
+  }
+  return after;
+}
+
+// Collects the pointers a write would set, including pointers added to arrays
+function collectPointers(data: Record<string, unknown>): PointerRef[] {
+  const pointers: PointerRef[] = [];
+  for (const [field, value] of Object.entries(data)) {
+    const candidates =
+      value && typeof value === "object" && "__op" in value
+        ? (value as { objects?: unknown[] }).objects || []
+        : [value];
+    for (const candidate of candidates) {
+      const pointer = candidate as {
+        __type?: string;
+        className?: string;
+        objectId?: string;
+      };
+      if (
+        pointer &&
+        typeof pointer === "object" &&
+        pointer.__type === "Pointer" &&
+        pointer.className &&
+        pointer.objectId
+      ) {
+        pointers.push({
+          field,
+          className: pointer.className,
+          objectId: pointer.objectId,
+        });
+      }
+    }
+  }
+  return pointers;
+}
+
+/**
+ * Returns the objectIds of `className` that exist among `objectIds`.
+ */
+async function findExistingIds(
+  profile: ParseProfile,
+  className: string,
+  objectIds: string[]
+): Promise<Set<string>> {
+  const query = new profile.Parse.Query(className);
+  query.containedIn("objectId", objectIds);
+  query.select("objectId");
+  query.limit(objectIds.length);
+  const results = await query.find({ useMasterKey: !!profile.masterKey });
+  return new Set(results.map((obj) => obj.id));
+}
+
+async function findMissingPointers(
+  profile: ParseProfile,
+  pointers: PointerRef[]
+): Promise<PointerRef[]> {
+  const byClass = new Map<string, string[]>();
+  for (const pointer of pointers) {
+    byClass.set(pointer.className, [
+      ...(byClass.get(pointer.className) || []),
+      pointer.objectId,
+    ]);
+  }
+
+  const missing: PointerRef[] = [];
+  for (const [className, objectIds] of byClass) {
+    let existing = new Set<string>();
+    try {
+      existing = await findExistingIds(profile, className, objectIds);
+    } catch {
+      // The target class may not exist at all: every pointer to it is missing
+    }
+    missing.push(
+      ...pointers.filter(
+        (pointer) =>
+          pointer.className === className && !existing.has(pointer.objectId)
+      )
+    );
+  }
+  return missing;
+}
+
+async function fetchObjectsById(
+  profile: ParseProfile,
+  className: string,
+  objectIds: string[]
+): Promise<Map<string, Record<string, unknown>>> {
+  const query = new profile.Parse.Query(className);
+  query.containedIn("objectId", objectIds);
+  query.limit(objectIds.length);
+  const results = await query.find({ useMasterKey: !!profile.masterKey });
+  return new Map(results.map((obj) => [obj.id, obj.toJSON()]));
+}
+
+// Returns which of `targetObjectIds` are currently in a parent's relation
+async function findRelatedIds(
+  profile: ParseProfile,
+  parentClassName: string,
+  parentObjectId: string,
+  relationKey: string,
+  targetObjectIds: string[]
+): Promise<Set<string>> {
+  const parent: ParseSDK.Object =
+    profile.Parse.Object.extend(parentClassName).createWithoutData(
+      parentObjectId
+    );
+  const query = parent.relation(relationKey).query();
+  query.containedIn("objectId", targetObjectIds);
+  query.select("objectId");
+  query.limit(targetObjectIds.length);
+  const results = await query.find({ useMasterKey: !!profile.masterKey });
+  return new Set(results.map((obj) => obj.id));
+}
+
+/**
+ * Previews a mutating tool call: fetches the current objects, applies the
+ * requested changes in memory and returns a field-by-field before/after diff.
+ * Nothing is saved.
+ */
+async function previewChanges(
+  profile: ParseProfile,
+  name: string,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const objects: {
+    objectId?: string;
+    action: "create" | "update" | "delete";
+    found?: boolean;
+    changes: FieldChange[];
+  }[] = [];
+  const pointers: PointerRef[] = [];
+
+  switch (name) {
+    case "create_object":
+    case "batch_create": {
+      const items =
+        name === "create_object"
+          ? [args.data as Record<string, unknown>]
+          : (args.objects as Record<string, unknown>[]);
+      for (const data of items) {
+        objects.push({
+          action: "create",
+          changes: diffFields({}, applyData({}, data)),
+        });
+        pointers.push(...collectPointers(data));
+      }
+      break;
+    }
+
+    case "update_object":
+    case "batch_update": {
+      const updates =
+        name === "update_object"
+          ? [
+              {
+                objectId: args.objectId as string,
+                data: args.data as Record<string, unknown>,
+              },
+            ]
+          : (args.updates as {
+              objectId: string;
+              data: Record<string, unknown>;
+            }[]);
+      const current = await fetchObjectsById(
+        profile,
+        args.className as string,
+        updates.map((update) => update.objectId)
+      );
+      for (const update of updates) {
+        const before = current.get(update.objectId);
+        objects.push({
+          objectId: update.objectId,
+          action: "update",
+          found: !!before,
+          changes: before
+            ? diffFields(before, applyData(before, update.data))
+            : [],
+        });
+        pointers.push(...collectPointers(update.data));
+      }
+      break;
+    }
+
+    case "delete_object":
+    case "batch_delete": {
+      const objectIds =
+        name === "delete_object"
+          ? [args.objectId as string]
+          : (args.objectIds as string[]);
+      const current = await fetchObjectsById(
+        profile,
+        args.className as string,
+        objectIds
+      );
+      for (const objectId of objectIds) {
+        const before = current.get(objectId);
+        objects.push({
+          objectId,
+          action: "delete",
+          found: !!before,
+          changes: before ? diffFields(before, {}) : [],
+        });
+      }
+      break;
+    }
+
+    case "add_to_relation":
+    case "remove_from_relation": {
+      const parentQuery = new profile.Parse.Query(
+        args.parentClassName as string
+      );
+      // Fails with "Object not found" when the parent doesn't exist
+      await parentQuery.get(args.parentObjectId as string, {
+        useMasterKey: !!profile.masterKey,
+      });
+      const targetClassName = args.targetClassName as string;
+      const targetObjectIds = args.targetObjectIds as string[];
+
+      const alreadyRelated = await findRelatedIds(
+        profile,
+        args.parentClassName as string,
+        args.parentObjectId as string,
+        args.relationKey as string,
+        targetObjectIds
+      );
+      const adding = name === "add_to_relation";
+      const missingTargets = await findMissingPointers(
+        profile,
+        targetObjectIds.map((objectId) => ({
+          field: args.relationKey as string,
+          className: targetClassName,
+          objectId,
+        }))
+      );
+
+      return {
+        dryRun: true,
+        tool: name,
+        parent: {
+          className: args.parentClassName,
+          objectId: args.parentObjectId,
+        },
+        relationKey: args.relationKey,
+        willChange: targetObjectIds.filter((id) =>
+          adding ? !alreadyRelated.has(id) : alreadyRelated.has(id)
+        ),
+        unchanged: targetObjectIds.filter((id) =>
+          adding ? alreadyRelated.has(id) : !alreadyRelated.has(id)
+        ),
+        missingPointers: missingTargets,
+        note: "Dry run: nothing was saved.",
+      };
+    }
+
+    case "update_config": {
+      const config = await profile.Parse.Config.get({
+        useMasterKey: !!profile.masterKey,
+      });
+      const before =
+        (config as unknown as { attributes?: Record<string, unknown> })
+          .attributes || {};
+      return {
+        dryRun: true,
+        tool: name,
+        changes: diffFields(before, {
+          ...before,
+          ...(args.params as Record<string, unknown>),
+        }),
+        note: "Dry run: nothing was saved.",
+      };
+    }
+
+    case "delete_field":
+    case "drop_index":
+    case "delete_class":
+      return previewSchemaChange(profile, name, args);
+
+    case "set_class_permissions":
+      return previewPermissionChanges(profile, args);
+
+    case "set_object_acl":
+    case "bulk_set_object_acl":
+      return previewACLChanges(profile, name, args);
+
+    case "delete_role":
+      return previewRoleDeletion(profile, args);
+
+    case "update_user":
+    case "set_user_disabled":
+    case "revoke_user_sessions":
+      return previewUserChange(profile, name, args);
+
+    case "send_push":
+      return previewPush(profile, args);
+
+    case "update_hook":
+    case "delete_hook":
+      return previewHookChange(profile, name, args);
+
+    case "undo_change":
+      return undoChange(args.changeId as string, !!args.force, true);
+  }
+
+  return {
+    dryRun: true,
+    tool: name,
+    className: args.className,
+    summary: {
+      objects: objects.length,
+      notFound: objects.filter((obj) => obj.found === false).length,
+      fieldsChanged: objects.reduce(
+        (total, obj) => total + obj.changes.length,
+        0
+      ),
+    },
+    objects,
+    missingPointers: await findMissingPointers(profile, pointers),
+    note: "Dry run: nothing was saved.",
+  };
+}
+
+// ============================================================================
+// Confirmation Tokens
+// ============================================================================
+
+// Confirmed even with MCP_REQUIRE_CONFIRMATION=false: pushes reach real
+// devices, and deleted fields and classes can't be undone
+const ALWAYS_CONFIRMED_TOOLS = new Set([
+  "send_push",
+  "delete_field",
+  "delete_class",
+]);
+
+// Destructive tools that only run once called again with a confirmation token
+const CONFIRMATION_TOOLS = new Set([
+  "delete_object",
+  "batch_delete",
+  "batch_update",
+  "update_config",
+  "delete_field",
+  "drop_index",
+  "delete_class",
+  "bulk_set_object_acl",
+  "delete_role",
+  "set_user_disabled",
+  "revoke_user_sessions",
+  "undo_change",
+  "send_push",
+  "update_hook",
+  "delete_hook",
+]);
+
+interface PendingConfirmation {
+  tool: string;
+  environment: string;
+  sessionId: string;
+  argsHash: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+/**
+ * Hashes the arguments a confirmation token is bound to. Everything except the
+ * token itself must match exactly, including the resolved environment.
+ */
+function hashConfirmationArgs(
+  name: string,
+  environment: string,
+  args: Record<string, unknown>
+): string {
+  const {
+    confirmationToken: _token,
+    environment: _environment,
+    format: _format,
+    ...boundArgs
+  } = args;
+  return createHash("sha256")
+    .update(canonicalJSON({ name, environment, args: boundArgs }))
+    .digest("hex");
+}
+
+/**
+ * Two-phase execution for destructive tools. The first call returns a plan
+ * and a short-lived token; the change only runs when the tool is called again
+ * with that token and the exact same arguments. Returns the response to send
+ * instead of running the tool, or undefined when the call is confirmed.
+ */
+async function checkConfirmation(
+  profile: ParseProfile,
+  name: string,
+  args: Record<string, unknown>,
+  sessionId?: string
+): Promise<unknown | undefined> {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) {
+      pendingConfirmations.delete(token);
+    }
+  }
+
+  const argsHash = hashConfirmationArgs(name, profile.name, args);
+  const token = args.confirmationToken as string | undefined;
+
+  if (token) {
+    const pending = pendingConfirmations.get(token);
+    if (
+      !pending ||
+      pending.tool !== name ||
+      pending.environment !== profile.name ||
+      pending.sessionId !== (sessionId || "") ||
+      pending.argsHash !== argsHash
+    ) {
+      return {
+        error:
+          "Invalid or expired confirmation token. Tokens are single-use, expire after " +
+          `${MCP_CONFIRMATION_TTL_SECONDS} seconds and only confirm the exact same arguments. ` +
+          "Call the tool again without a token to get a new plan.",
+        code: "CONFIRMATION_INVALID",
+      };
+    }
+    pendingConfirmations.delete(token);
+    return undefined;
+  }
+
+  const {
+    dryRun: _dryRun,
+    note: _note,
+    ...plan
+  } = (await previewChanges(profile, name, args)) as Record<string, unknown>;
+  // A call the tool would refuse anyway gets its error, not a token
+  if (plan.error) {
+    return plan;
+  }
+
+  const confirmationToken = randomBytes(9).toString("base64url");
+  const expiresAt = now + MCP_CONFIRMATION_TTL_SECONDS * 1000;
+  pendingConfirmations.set(confirmationToken, {
+    tool: name,
+    environment: profile.name,
+    sessionId: sessionId || "",
+    argsHash,
+    expiresAt,
+  });
+
+  return {
+    confirmationRequired: true,
+    plan,
+    confirmationToken,
+    expiresAt: new Date(expiresAt).toISOString(),
+    instructions:
+      "Nothing has been changed yet. Show this plan to the user and ask for explicit approval. " +
+      "If they approve, call the tool again with the exact same arguments plus this confirmationToken.",
+  };
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+// State shared between the request handler and handleToolCall for one call
+interface ToolCallContext {
+  sessionId?: string;
+  beforeImages?: BeforeImage[];
+  // Written objects keyed by objectId, for tools whose result doesn't list them
+  afterImages?: Record<string, Record<string, unknown>>;
+  // Set while a user-scoped tool runs as an end user
+  userScope?: UserScope;
+}
+
+// The state of an object right before a mutating tool changed it
+interface BeforeImage {
+  className: string;
+  objectId?: string;
+  exists: boolean;
+  data?: Record<string, unknown>;
+  // For relation tools: targets that were already in the relation
+  relatedIds?: string[];
+}
+
+interface AuditEntry {
+  id: string;
+  timestamp: string;
+  sessionId?: string;
+  environment: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  className?: string;
+  objectIds: string[];
+  outcome: "success" | "error" | "denied" | "confirmation_required" | "dry_run";
+  errorCode?: number | string;
+  error?: string;
+  durationMs: number;
+  beforeImages?: BeforeImage[];
+}
+
+// Recent entries kept in memory for get_audit_log
+const AUDIT_BUFFER_SIZE = 1000;
+const auditBuffer: AuditEntry[] = loadRecentAuditEntries();
+
+const SECRET_KEY_PATTERN = /password|token|masterKey|authData/i;
+
+function loadRecentAuditEntries(): AuditEntry[] {
+  if (!MCP_AUDIT_SINKS.includes("file") || !fs.existsSync(MCP_AUDIT_FILE)) {
+    return [];
+  }
+  try {
+    return fs
+      .readFileSync(MCP_AUDIT_FILE, "utf8")
+      .split("\n")
+      .filter(Boolean)
+      .slice(-AUDIT_BUFFER_SIZE)
+      .map((line) => JSON.parse(line));
+  } catch (error) {
+    console.error(
+      `Warning: Failed to read audit log ${MCP_AUDIT_FILE}: ${error}`
+    );
+    return [];
+  }
+}
+
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, v]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) ? "[redacted]" : redactSecrets(v),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Fetches the current state of every object a mutating tool is about to
+ * change, so the audit log (and undo) can tell what was there before.
+ */
+async function captureBeforeImages(
+  profile: ParseProfile,
+  name: string,
+  args: Record<string, unknown>
+): Promise<BeforeImage[]> {
+  let className = args.className as string;
+  let objectIds: string[] = [];
+
+  switch (name) {
+    case "update_object":
+    case "delete_object":
+    case "set_object_acl":
+      objectIds = [args.objectId as string];
+      break;
+    case "update_user":
+    case "set_user_disabled": {
+      const user = await findUser(profile, args.user as string);
+      className = "_User";
+      objectIds = user ? [user.id] : [];
+      break;
+    }
+    case "batch_update":
+      objectIds = (args.updates as { objectId: string }[]).map(
+        (update) => update.objectId
+      );
+      break;
+    case "batch_delete":
+      objectIds = args.objectIds as string[];
+      break;
+    case "add_to_relation":
+    case "remove_from_relation": {
+      const parentClassName = args.parentClassName as string;
+      const parentObjectId = args.parentObjectId as string;
+      const current = await fetchObjectsById(profile, parentClassName, [
+        parentObjectId,
+      ]);
+      const relatedIds = await findRelatedIds(
+        profile,
+        parentClassName,
+        parentObjectId,
+        args.relationKey as string,
+        args.targetObjectIds as string[]
+      );
+      return [
+        {
+          className: parentClassName,
+          objectId: parentObjectId,
+          exists: current.has(parentObjectId),
+          data: current.get(parentObjectId),
+          relatedIds: [...relatedIds],
+        },
+      ];
+    }
+    case "set_class_permissions":
+      return [
+        {
+          className,
+          exists: true,
+          data: {
+            classLevelPermissions: await getClassLevelPermissions(
+              profile,
+              className
+            ),
+          },
+        },
+      ];
+    case "update_config": {
+      const config = await profile.Parse.Config.get({
+        useMasterKey: !!profile.masterKey,
+      });
+      return [
+        {
+          className: "_GlobalConfig",
+          exists: true,
+          data:
+            (config as unknown as { attributes?: Record<string, unknown> })
+              .attributes || {},
+        },
+      ];
+    }
+  }
+
+  if (objectIds.length === 0) {
+    return [];
+  }
+  const current = await fetchObjectsById(profile, className, objectIds);
+  return objectIds.map((objectId) => ({
+    className,
+    objectId,
+    exists: current.has(objectId),
+    data: current.get(objectId),
+  }));
+}
+
+// Collects the objectIds a call targeted, plus the ones it created
+function getAffectedObjectIds(
+  args: Record<string, unknown>,
+  result: unknown
+): string[] {
+  const ids = new Set<string>();
+  for (const key of ["objectId", "parentObjectId"]) {
+    if (typeof args[key] === "string") {
+      ids.add(args[key] as string);
+    }
+  }
+  for (const id of (args.objectIds as string[] | undefined) || []) {
+    ids.add(id);
+  }
+  for (const update of (args.updates as { objectId?: string }[]) || []) {
+    if (update.objectId) {
+      ids.add(update.objectId);
+    }
+  }
+  const created = Array.isArray(result) ? result : [result];
+  for (const obj of created) {
+    const objectId = (obj as { objectId?: unknown } | null)?.objectId;
+    if (typeof objectId === "string") {
+      ids.add(objectId);
+    }
+  }
+  return [...ids];
+}
+
+function getAuditOutcome(result: unknown): AuditEntry["outcome"] {
+  const response = (result || {}) as Record<string, unknown>;
+  if (response.code === "POLICY_DENIED") {
+    return "denied";
+  }
+  if (response.confirmationRequired) {
+    return "confirmation_required";
+  }
+  if (response.dryRun) {
+    return "dry_run";
+  }
+  return "error" in response ? "error" : "success";
+}
+
+function createAuditEntry(
+  name: string,
+  args: Record<string, unknown>,
+  environment: string,
+  context: ToolCallContext,
+  result: unknown,
+  durationMs: number
+): AuditEntry {
+  const outcome = getAuditOutcome(result);
+  const response = (result || {}) as { error?: unknown; code?: unknown };
+  return {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    sessionId: context.sessionId,
+    environment,
+    tool: name,
+    arguments: redactSecrets(args) as Record<string, unknown>,
+    className: getTargetClasses(name, args)[0],
+    objectIds: getAffectedObjectIds(args, result),
+    outcome,
+    errorCode:
+      outcome === "error" || outcome === "denied"
+        ? (response.code as number | string | undefined)
+        : undefined,
+    error:
+      outcome === "error" || outcome === "denied"
+        ? String(response.error)
+        : undefined,
+    durationMs,
+    beforeImages: context.beforeImages
+      ? (redactSecrets(context.beforeImages) as BeforeImage[])
+      : undefined,
+  };
+}
+
+/**
+ * Keeps the entry in memory and writes it to every configured sink. Sink
+ * failures are reported on stderr but never fail the tool call.
+ */
+async function recordAudit(entry: AuditEntry): Promise<void> {
+  auditBuffer.push(entry);
+  if (auditBuffer.length > AUDIT_BUFFER_SIZE) {
+    auditBuffer.shift();
+  }
+
+  for (const sink of MCP_AUDIT_SINKS) {
+    try {
+      switch (sink) {
+        case "stderr":
+          console.error(`[audit] ${JSON.stringify(entry)}`);
+          break;
+        case "file":
+          await fs.promises.appendFile(
+            MCP_AUDIT_FILE,
+            JSON.stringify(entry) + "\n"
+          );
+          break;
+        case "parse": {
+          const profile = profiles.get(entry.environment);
+          if (!profile?.initialized) {
+            break;
+          }
+          const AuditLog = profile.Parse.Object.extend(MCP_AUDIT_CLASS);
+          // "className" and "id" are reserved on Parse objects. Arguments and
+          // before-images are stored as JSON text: query operators like $gt
+          // are not valid keys in an Object field on MongoDB
+          const {
+            id: entryId,
+            className: targetClass,
+            arguments: callArguments,
+            beforeImages,
+            ...fields
+          } = entry;
+          await new AuditLog({
+            ...fields,
+            entryId,
+            targetClass,
+            arguments: JSON.stringify(callArguments),
+            beforeImages: beforeImages && JSON.stringify(beforeImages),
+          }).save(null, {
+            useMasterKey: !!profile.masterKey,
+          });
+          break;
+        }
+        default:
+          console.error(`Warning: Unknown audit sink "${sink}"`);
+      }
+    } catch (error) {
+      console.error(
+        `Warning: Failed to write audit entry to ${sink}: ${error}`
+      );
+    }
+  }
+}
+
+function queryAuditLog(args: Record<string, unknown>) {
+  const limit = Math.min((args.limit as number) || 50, 500);
+  const since = args.since ? new Date(args.since as string).getTime() : 0;
+
+  const entries = auditBuffer
+    .filter(
+      (entry) =>
+        (!args.tool || entry.tool === args.tool) &&
+        (!args.className || entry.className === args.className) &&
+        (!args.objectId || entry.objectIds.includes(args.objectId as string)) &&
+        (!args.outcome || entry.outcome === args.outcome) &&
+        (!args.sessionId || entry.sessionId === args.sessionId) &&
+        (!args.environment || entry.environment === args.environment) &&
+        new Date(entry.timestamp).getTime() >= since
+    )
+    .reverse();
+
+  return {
+    total: entries.length,
+    entries: entries.slice(0, limit),
+  };
+}
+
+// ============================================================================
+// Change Journal and Undo
+// ============================================================================
+
+// Tools whose successful calls are recorded in the change journal
+const UNDOABLE_TOOLS = new Set([
+  "create_object",
+  "update_object",
+  "delete_object",
+  "add_to_relation",
+  "remove_from_relation",
+  "batch_create",
+  "batch_update",
+  "batch_delete",
+  "update_config",
+  "update_user",
+  "import_data",
+  "set_class_permissions",
+  "bulk_set_object_acl",
+]);
+
+// Fields managed by Parse Server that are never restored
+const SYSTEM_FIELDS = new Set(["objectId", "createdAt", "updatedAt"]);
+
+interface ChangeRecord {
+  id: string;
+  timestamp: string;
+  sessionId?: string;
+  environment: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  className?: string;
+  snapshots: BeforeImage[];
+  // State of each written object right after the change, keyed by objectId
+  afterImages: Record<string, Record<string, unknown>>;
+  undoneAt?: string;
+}
+
+// Most recent changes, kept in memory (lost when the server restarts)
+const CHANGE_JOURNAL_SIZE = 500;
+const changeJournal: ChangeRecord[] = [];
+
+function recordChange(
+  name: string,
+  args: Record<string, unknown>,
+  environment: string,
+  context: ToolCallContext,
+  result: unknown
+): void {
+  const afterImages: Record<string, Record<string, unknown>> = {
+    ...context.afterImages,
+  };
+  for (const obj of Array.isArray(result) ? result : [result]) {
+    const json = obj as Record<string, unknown> | null;
+    if (json && typeof json.objectId === "string") {
+      afterImages[json.objectId] = json;
+    }
+  }
+
+  changeJournal.push({
+    id: randomBytes(6).toString("hex"),
+    timestamp: new Date().toISOString(),
+    sessionId: context.sessionId,
+    environment,
+    tool: name,
+    arguments: args,
+    className: getTargetClasses(name, args)[0],
+    snapshots: context.beforeImages || [],
+    afterImages,
+  });
+  if (changeJournal.length > CHANGE_JOURNAL_SIZE) {
+    changeJournal.shift();
+  }
+}
+
+function getChangedObjectIds(change: ChangeRecord): string[] {
+  if (
+    change.tool === "create_object" ||
+    change.tool === "batch_create" ||
+    change.tool === "import_data"
+  ) {
+    return Object.keys(change.afterImages);
+  }
+  return change.snapshots
+    .map((snapshot) => snapshot.objectId)
+    .filter((objectId): objectId is string => !!objectId);
+}
+
+function listChanges(args: Record<string, unknown>) {
+  const limit = Math.min((args.limit as number) || 20, CHANGE_JOURNAL_SIZE);
+  const changes = changeJournal
+    .filter(
+      (change) =>
+        (args.includeUndone || !change.undoneAt) &&
+        (!args.className || change.className === args.className) &&
+        (!args.objectId ||
+          getChangedObjectIds(change).includes(args.objectId as string)) &&
+        (!args.environment || change.environment === args.environment)
+    )
+    .reverse();
+
+  return {
+    total: changes.length,
+    changes: changes.slice(0, limit).map((change) => ({
+      changeId: change.id,
+      timestamp: change.timestamp,
+      environment: change.environment,
+      tool: change.tool,
+      className: change.className,
+      objectIds: getChangedObjectIds(change),
+      undoneAt: change.undoneAt,
+    })),
+  };
+}
+
+type UndoStep = () => Promise<Record<string, unknown>>;
+type UndoConflict = { objectId?: string; reason: string };
+
+// Plans deleting objects a change created
+async function planDeleteCreated(
+  profile: ParseProfile,
+  change: ChangeRecord,
+  objectIds: string[],
+  conflicts: UndoConflict[],
+  steps: UndoStep[]
+): Promise<void> {
+  const className = change.className!;
+  const current = await fetchObjectsById(profile, className, objectIds);
+  for (const objectId of objectIds) {
+    const now = current.get(objectId);
+    if (!now) {
+      conflicts.push({ objectId, reason: "Object no longer exists" });
+      continue;
+    }
+    if (now.updatedAt !== change.afterImages[objectId].updatedAt) {
+      conflicts.push({
+        objectId,
+        reason: `Object was modified again at ${now.updatedAt}`,
+      });
+    }
+    steps.push(async () => {
+      await parseRequest(profile, "DELETE", `classes/${className}/${objectId}`);
+      return { objectId, action: "deleted" };
+    });
+  }
+}
+
+// Plans setting the fields a change updated back to their snapshot values
+async function planRevertUpdates(
+  profile: ParseProfile,
+  change: ChangeRecord,
+  conflicts: UndoConflict[],
+  steps: UndoStep[]
+): Promise<void> {
+  const className = change.className!;
+  const current = await fetchObjectsById(
+    profile,
+    className,
+    getChangedObjectIds(change)
+  );
+  for (const snapshot of change.snapshots) {
+    const objectId = snapshot.objectId!;
+    const after = change.afterImages[objectId];
+    const now = current.get(objectId);
+    if (!snapshot.exists || !after) {
+      continue;
+    }
+    if (!now) {
+      conflicts.push({ objectId, reason: "Object no longer exists" });
+      continue;
+    }
+    if (now.updatedAt !== after.updatedAt) {
+      conflicts.push({
+        objectId,
+        reason: `Object was modified again at ${now.updatedAt}`,
+      });
+    }
+    // update_user results leave out auth data, so only revert what it wrote
+    const written =
+      change.tool === "update_user"
+        ? Object.keys(change.arguments.data as Record<string, unknown>)
+        : undefined;
+    const revert: Record<string, unknown> = {};
+    for (const { field, before } of diffFields(snapshot.data!, after)) {
+      if (!SYSTEM_FIELDS.has(field) && (!written || written.includes(field))) {
+        revert[field] = before === undefined ? { __op: "Delete" } : before;
+      }
+    }
+    steps.push(async () => {
+      await parseRequest(
+        profile,
+        "PUT",
+        `classes/${className}/${objectId}`,
+        revert
+      );
+      return { objectId, action: "reverted", fields: Object.keys(revert) };
+    });
+  }
+}
+
+// The tool call undoing a change amounts to, checked against the policy
+function getInverseOperation(change: ChangeRecord): {
+  tool: string;
+  args: Record<string, unknown>;
+} {
+  const args = change.arguments;
+  const className = change.className;
+  switch (change.tool) {
+    case "create_object":
+      return {
+        tool: "delete_object",
+        args: { className, objectId: getChangedObjectIds(change)[0] },
+      };
+    case "batch_create":
+      return {
+        tool: "batch_delete",
+        args: { className, objectIds: getChangedObjectIds(change) },
+      };
+    case "delete_object":
+      return { tool: "create_object", args: { className } };
+    case "batch_delete":
+      return { tool: "batch_create", args: { className } };
+    case "add_to_relation":
+      return { tool: "remove_from_relation", args };
+    case "remove_from_relation":
+      return { tool: "add_to_relation", args };
+    case "import_data": {
+      // Undoing an import deletes the objects it created
+      const updated = new Set(
+        change.snapshots.map((snapshot) => snapshot.objectId)
+      );
+      const created = getChangedObjectIds(change).filter(
+        (objectId) => !updated.has(objectId)
+      );
+      return created.length > 0
+        ? { tool: "batch_delete", args: { className, objectIds: created } }
+        : { tool: "batch_update", args: { className } };
+    }
+    default:
+      // Updates (objects, users, config) are undone with the same tool
+      return { tool: change.tool, args: { ...args, className } };
+  }
+}
+
+/**
+ * Reverts a recorded change using the snapshots taken before it ran.
+ * Created objects are deleted, updated fields are set back to their previous
+ * values, deleted objects are recreated and relation/config changes are
+ * reversed. Objects modified again since the change are reported as
+ * conflicts and left untouched unless `force` is set. With `preview`, only
+ * the plan is returned.
+ */
+async function undoChange(
+  changeId: string,
+  force: boolean,
+  preview = false
+): Promise<unknown> {
+  const change = changeJournal.find((c) => c.id === changeId);
+  if (!change) {
+    return { error: `Change "${changeId}" not found` };
+  }
+  if (change.undoneAt) {
+    return {
+      error: `Change "${changeId}" was already undone at ${change.undoneAt}`,
+    };
+  }
+  const profile = profiles.get(change.environment);
+  if (!profile?.initialized) {
+    return {
+      error: `Environment "${change.environment}" is not available to undo this change`,
+    };
+  }
+
+  // Undoing writes to the change's environment, so the policy must allow the
+  // inverse operation there (a deny on delete_object also blocks undoing a create)
+  const inverse = getInverseOperation(change);
+  const decision = evaluatePolicy(
+    inverse.tool,
+    inverse.args,
+    change.environment
+  );
+  if (!decision.allowed) {
+    return {
+      error: `Undo refused by policy: ${decision.reason}`,
+      code: "POLICY_DENIED",
+      tool: inverse.tool,
+      environment: change.environment,
+      classes: getTargetClasses(inverse.tool, inverse.args),
+      rule: decision.rule,
+    };
+  }
+
+  const conflicts: UndoConflict[] = [];
+  const steps: UndoStep[] = [];
+
+  switch (change.tool) {
+    case "create_object":
+    case "batch_create":
+      await planDeleteCreated(
+        profile,
+        change,
+        Object.keys(change.afterImages),
+        conflicts,
+        steps
+      );
+      break;
+
+    case "update_object":
+    case "update_user":
+    case "batch_update":
+      await planRevertUpdates(profile, change, conflicts, steps);
+      break;
+
+    case "import_data": {
+      // Imports both create objects and update the ones matching upsertKey
+      const updated = new Set(
+        change.snapshots.map((snapshot) => snapshot.objectId)
+      );
+      await planDeleteCreated(
+        profile,
+        change,
+        Object.keys(change.afterImages).filter(
+          (objectId) => !updated.has(objectId)
+        ),
+        conflicts,
+        steps
+      );
+      await planRevertUpdates(profile, change, conflicts, steps);
+      break;
+    }
+
+    case "delete_object":
+    case "batch_delete": {
+      const className = change.className!;
+      const current = await fetchObjectsById(
+        profile,
+        className,
+        getChangedObjectIds(change)
+      );
+      for (const snapshot of change.snapshots) {
+        const objectId = snapshot.objectId!;
+        if (!snapshot.exists) {
+          continue;
+        }
+        if (current.has(objectId)) {
+          conflicts.push({ objectId, reason: "Object already exists again" });
+          continue;
+        }
+        const fields = Object.fromEntries(
+          Object.entries(snapshot.data!).filter(
+            ([field]) => !SYSTEM_FIELDS.has(field)
+          )
+        );
+        steps.push(async () => {
+          try {
+            // Keeps the original objectId when the server allows custom ids
+            await parseRequest(profile, "POST", `classes/${className}`, {
+              ...fields,
+              objectId,
+            });
+            return { objectId, action: "restored" };
+          } catch {
+            const created = await parseRequest<{ objectId: string }>(
+              profile,
+              "POST",
+              `classes/${className}`,
+              fields
+            );
+            return {
+              objectId,
+              action: "restored",
+              restoredAs: created.objectId,
+              warning:
+                "The server doesn't allow custom objectIds: the object was restored with a new objectId, so pointers to the old one stay broken",
+            };
+          }
+        });
+      }
+      break;
+    }
+
+    case "add_to_relation":
+    case "remove_from_relation": {
+      const snapshot = change.snapshots[0];
+      const args = change.arguments;
+      const targetObjectIds = args.targetObjectIds as string[];
+      const relatedIds = new Set(snapshot?.relatedIds || []);
+      // Only revert the targets the call actually added or removed
+      const changedIds =
+        change.tool === "add_to_relation"
+          ? targetObjectIds.filter((id) => !relatedIds.has(id))
+          : targetObjectIds.filter((id) => relatedIds.has(id));
+      steps.push(async () => {
+        await parseRequest(
+          profile,
+          "PUT",
+          `classes/${args.parentClassName}/${args.parentObjectId}`,
+          {
+            [args.relationKey as string]: {
+              __op:
+                change.tool === "add_to_relation"
+                  ? "RemoveRelation"
+                  : "AddRelation",
+              objects: changedIds.map((objectId) => ({
+                __type: "Pointer",
+                className: args.targetClassName,
+                objectId,
+              })),
+            },
+          }
+        );
+        return {
+          objectId: args.parentObjectId,
+          action:
+            change.tool === "add_to_relation"
+              ? "removed_from_relation"
+              : "added_to_relation",
+          targetObjectIds: changedIds,
+        };
+      });
+      break;
+    }
+
+    case "update_config": {
+      const before = change.snapshots[0]?.data || {};
+      const params = change.arguments.params as Record<string, unknown>;
+      const config = await profile.Parse.Config.get({
+        useMasterKey: !!profile.masterKey,
+      });
+      const now =
+        (config as unknown as { attributes?: Record<string, unknown> })
+          .attributes || {};
+      const revert: Record<string, unknown> = {};
+      for (const key of Object.keys(params)) {
+        if (!isSameValue(now[key], params[key])) {
+          conflicts.push({
+            objectId: key,
+            reason: "Config value was modified again",
+          });
+        }
+        revert[key] = key in before ? before[key] : { __op: "Delete" };
+      }
+      steps.push(async () => {
+        await parseRequest(profile, "PUT", "config", { params: revert });
+        return { action: "config_reverted", keys: Object.keys(revert) };
+      });
+      break;
+    }
+
+    case "bulk_set_object_acl": {
+      const className = change.className!;
+      const current = await fetchObjectsById(
+        profile,
+        className,
+        getChangedObjectIds(change)
+      );
+      for (const snapshot of change.snapshots) {
+        const objectId = snapshot.objectId!;
+        const now = current.get(objectId);
+        if (!now) {
+          conflicts.push({ objectId, reason: "Object no longer exists" });
+          continue;
+        }
+        if (
+          !isSameACL(
+            now.ACL as ACLJSON | undefined,
+            change.afterImages[objectId]?.ACL as ACLJSON | undefined
+          )
+        ) {
+          conflicts.push({ objectId, reason: "ACL was modified again" });
+        }
+        // An object without an ACL was readable and writable by everyone
+        const ACL = (snapshot.data?.ACL as ACLJSON | undefined) || {
+          "*": { read: true, write: true },
+        };
+        steps.push(async () => {
+          await parseRequest(
+            profile,
+            "PUT",
+            `classes/${className}/${objectId}`,
+            {
+              ACL,
+            }
+          );
+          return { objectId, action: "acl_restored" };
+        });
+      }
+      break;
+    }
+
+    case "set_class_permissions": {
+      const className = change.className!;
+      const before = (change.snapshots[0]?.data?.classLevelPermissions ||
+        {}) as ClassLevelPermissions;
+      const now = await getClassLevelPermissions(profile, className);
+      if (!isSameValue(now, applyPermissionChanges(before, change.arguments))) {
+        conflicts.push({
+          reason: `Class-level permissions of ${className} were modified again`,
+        });
+      }
+      steps.push(async () => {
+        await parseRequest(profile, "PUT", `schemas/${className}`, {
+          classLevelPermissions: before,
+        });
+        return { className, action: "permissions_restored" };
+      });
+      break;
+    }
+
+    default:
+      return { error: `Changes made by "${change.tool}" can't be undone` };
+  }
+
+  // Plan shown before the confirmation token: what would be reverted
+  if (preview) {
+    return {
+      dryRun: true,
+      tool: "undo_change",
+      changeId,
+      change: {
+        tool: change.tool,
+        environment: change.environment,
+        className: change.className,
+        objectIds: getChangedObjectIds(change),
+      },
+      inverse: inverse.tool,
+      steps: steps.length,
+      conflicts: conflicts.length > 0 ? conflicts : undefined,
+      warning:
+        conflicts.length > 0 && !force
+          ? "Some objects changed since this change was made: nothing will be reverted without force: true."
+          : undefined,
+      note: "Dry run: nothing was reverted.",
+    };
+  }
+
+  if (conflicts.length > 0 && !force) {
+    return {
+      undone: false,
+      changeId,
+      conflicts,
+      message:
+        "Some objects changed since this change was made. Nothing was reverted. " +
+        "Review the conflicts with the user and call undo_change again with force: true to overwrite them.",
+    };
+  }
+
+  const results = [];
+  for (const step of steps) {
+    try {
+      results.push(await step());
+    } catch (error: unknown) {
+      const parseError = error as { code?: number; message?: string };
+      results.push({
+        action: "failed",
+        error: parseError.message || String(error),
+        code: parseError.code,
+      });
+    }
+  }
+  change.undoneAt = new Date().toISOString();
+
+  return {
+    undone: true,
+    changeId,
+    tool: change.tool,
+    environment: change.environment,
+    conflicts: conflicts.length > 0 ? conflicts : undefined,
+    results,
+  };
+}
+
+// ============================================================================
+// Response Size Control
+// ============================================================================
+
+const RESPONSE_FORMATS = ["json", "compact", "table"];
+
+type ResponseFormat = "json" | "compact" | "table";
+
+// Rows included at most in the summary of an oversized result
+const SUMMARY_ROWS = 10;
+// Fields described at most in the fieldStats of that summary
+const SUMMARY_FIELDS = 50;
+
+// Oversized results kept for get_result_page
+const STORED_RESULT_TTL_MS = 15 * 60 * 1000;
+const MAX_STORED_RESULTS = 20;
+
+interface StoredResult {
+  id: string;
+  createdAt: number;
+  sessionId?: string;
+  tool: string;
+  result: unknown;
+}
+
+const storedResults = new Map<string, StoredResult>();
+
+/**
+ * Truncates long strings and long arrays nested inside objects, leaving an
+ * explicit marker. Row lists at the top of a result (depth <= 1) are kept
+ * whole: oversized results are summarized instead.
+ */
+function truncateLargeValues(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value.length > MCP_MAX_STRING_LENGTH
+      ? `${value.slice(0, MCP_MAX_STRING_LENGTH)}…[truncated ${value.length - MCP_MAX_STRING_LENGTH} chars]`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    const items =
+      depth > 1 && value.length > MCP_MAX_ARRAY_ITEMS
+        ? value.slice(0, MCP_MAX_ARRAY_ITEMS)
+        : value;
+    const truncated = items.map((item) => truncateLargeValues(item, depth + 1));
+    if (items.length < value.length) {
+      truncated.push(`…[truncated ${value.length - items.length} more items]`);
+    }
+    return truncated;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        truncateLargeValues(item, depth + 1),
+      ])
+    );
+  }
+  return value;
+}
+
+function isRow(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Finds the list of rows in a result: the result itself if it is an array,
+ * otherwise its longest top-level array of objects (e.g. `results`).
+ */
+function findRows(
+  result: unknown
+): { key?: string; rows: Record<string, unknown>[] } | undefined {
+  if (Array.isArray(result)) {
+    return result.every(isRow) ? { rows: result } : undefined;
+  }
+  if (!isRow(result)) {
+    return undefined;
+  }
+  let found: { key: string; rows: Record<string, unknown>[] } | undefined;
+  for (const [key, value] of Object.entries(result)) {
+    if (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every(isRow) &&
+      value.length > (found?.rows.length || 0)
+    ) {
+      found = { key, rows: value };
+    }
+  }
+  return found;
+}
+
+function replaceRows(
+  result: unknown,
+  key: string | undefined,
+  rows: unknown
+): unknown {
+  return key === undefined
+    ? rows
+    : { ...(result as Record<string, unknown>), [key]: rows };
+}
+
+// Converts rows to { columns, rows } where each row is an array of values
+function toTable(rows: Record<string, unknown>[]) {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+  return {
+    columns,
+    rows: rows.map((row) => columns.map((column) => row[column] ?? null)),
+  };
+}
+
+function describeValueType(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "object") {
+    const type = (value as Record<string, unknown>).__type;
+    return typeof type === "string" ? type : "object";
+  }
+  return typeof value;
+}
+
+// How many rows have each field, and which value types it holds
+function computeFieldStats(rows: Record<string, unknown>[]) {
+  const stats: Record<string, { present: number; types: string[] }> = {};
+  for (const row of rows) {
+    for (const [field, value] of Object.entries(row)) {
+      const stat = (stats[field] ||= { present: 0, types: [] });
+      stat.present++;
+      const type = describeValueType(value);
+      if (!stat.types.includes(type)) {
+        stat.types.push(type);
+      }
+    }
+  }
+  return stats;
+}
+
+function serializeResult(result: unknown, format: ResponseFormat): string {
+  if (format === "table") {
+    const found = findRows(result);
+    if (found) {
+      result = replaceRows(result, found.key, toTable(found.rows));
+    }
+  }
+  return format === "json"
+    ? JSON.stringify(result, null, 2)
+    : JSON.stringify(result);
+}
+
+function storeResult(
+  tool: string,
+  result: unknown,
+  sessionId?: string
+): StoredResult {
+  const now = Date.now();
+  for (const [id, stored] of storedResults) {
+    if (
+      now - stored.createdAt > STORED_RESULT_TTL_MS ||
+      storedResults.size >= MAX_STORED_RESULTS
+    ) {
+      storedResults.delete(id);
+    }
+  }
+  const stored: StoredResult = {
+    id: randomUUID(),
+    createdAt: now,
+    sessionId,
+    tool,
+    result,
+  };
+  storedResults.set(stored.id, stored);
+  return stored;
+}
+
+/**
+ * Builds the summary returned instead of a result over the size budget: row
+ * count, field stats and as many of the first rows as fit, plus a resultId
+ * to read the rest with get_result_page.
+ */
+function summarizeResult(
+  stored: StoredResult,
+  size: number,
+  format: ResponseFormat
+): string {
+  const found = findRows(stored.result);
+  const summary: Record<string, unknown> = {
+    truncated: true,
+    reason: `The result is ${size} bytes, over the ${MCP_RESPONSE_MAX_BYTES}-byte response budget`,
+    resultId: stored.id,
+    expiresAt: new Date(stored.createdAt + STORED_RESULT_TTL_MS).toISOString(),
+  };
+
+  if (found) {
+    const rowsSummary: Record<string, unknown> = { ...summary };
+    // Keep top-level scalars such as count, nextCursor or truncated
+    if (isRow(stored.result)) {
+      for (const [key, value] of Object.entries(stored.result)) {
+        if (
+          key !== found.key &&
+          (value === null || typeof value !== "object")
+        ) {
+          rowsSummary[key] = value;
+        }
+      }
+    }
+    rowsSummary.rowsField = found.key;
+    rowsSummary.rowCount = found.rows.length;
+    const fieldStats = Object.entries(computeFieldStats(found.rows));
+    rowsSummary.fieldStats = Object.fromEntries(
+      fieldStats.slice(0, SUMMARY_FIELDS)
+    );
+    if (fieldStats.length > SUMMARY_FIELDS) {
+      rowsSummary.fieldCount = fieldStats.length;
+    }
+    rowsSummary.instructions = `Call get_result_page with this resultId, offset and limit to read the remaining rows. Use fields to project only the fields you need.`;
+
+    for (
+      let rowCount = Math.min(SUMMARY_ROWS, found.rows.length);
+      rowCount > 0;
+      rowCount = Math.floor(rowCount / 2)
+    ) {
+      rowsSummary.firstRows = truncateLargeValues(
+        found.rows.slice(0, rowCount),
+        1
+      );
+      const text = serializeResult(rowsSummary, format);
+      if (Buffer.byteLength(text) <= MCP_RESPONSE_MAX_BYTES) {
+        return text;
+      }
+    }
+    summary.rowsField = found.key;
+    summary.rowCount = found.rows.length;
+    summary.instructions =
+      "Not even one row fits. Call get_result_page with this resultId, offset, limit and fields to read a few fields of each row.";
+  }
+
+  // No rows to page through, or not even one row fits: list the top-level
+  // fields and their sizes
+  summary.fields = isRow(stored.result)
+    ? Object.fromEntries(
+        Object.entries(stored.result).map(([key, value]) => [
+          key,
+          {
+            type: describeValueType(value),
+            bytes: JSON.stringify(value)?.length || 0,
+          },
+        ])
+      )
+    : describeValueType(stored.result);
+  summary.instructions ||=
+    "Call get_result_page with this resultId and a path to read one field at a time.";
+  return serializeResult(summary, format);
+}
+
+/**
+ * Renders a tool result as text within the response size budget.
+ */
+function renderResult(
+  tool: string,
+  result: unknown,
+  format: ResponseFormat,
+  sessionId?: string
+): string {
+  if (typeof result === "string") {
+    return result;
+  }
+  const text = serializeResult(truncateLargeValues(result), format);
+  const size = Buffer.byteLength(text);
+  if (size <= MCP_RESPONSE_MAX_BYTES) {
+    return text;
+  }
+  return summarizeResult(storeResult(tool, result, sessionId), size, format);
+}
+
+function getResultPage(args: Record<string, unknown>, sessionId?: string) {
+  const stored = storedResults.get(args.resultId as string);
+  if (
+    !stored ||
+    stored.sessionId !== sessionId ||
+    Date.now() - stored.createdAt > STORED_RESULT_TTL_MS
+  ) {
+    return {
+      error: `Unknown or expired resultId "${args.resultId}". Run the original tool call again.`,
+    };
+  }
+
+  let value = stored.result;
+  const pathName = args.path as string | undefined;
+  if (pathName) {
+    for (const key of pathName.split(".")) {
+      value =
+        isRow(value) || Array.isArray(value)
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+    }
+    if (value === undefined) {
+      return { error: `Path "${pathName}" not found in the result` };
+    }
+  }
+
+  const found = Array.isArray(value)
+    ? { key: undefined, rows: value as unknown[] }
+    : findRows(value);
+  if (!found) {
+    return { resultId: stored.id, path: pathName, value };
+  }
+
+  const offset = (args.offset as number) || 0;
+  const limit = Math.min((args.limit as number) || 50, 1000);
+  const fields = args.fields as string[] | undefined;
+  const rows = found.rows
+    .slice(offset, offset + limit)
+    .map((row) =>
+      fields && isRow(row)
+        ? Object.fromEntries(fields.map((field) => [field, row[field]]))
+        : row
+    );
+
+  return {
+    resultId: stored.id,
+    tool: stored.tool,
+    rowsField: found.key,
+    total: found.rows.length,
+    offset,
+    nextOffset:
+      offset + rows.length < found.rows.length
+        ? offset + rows.length
+        : undefined,
+    rows,
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const EXPORT_FORMATS = ["csv", "ndjson", "json"];
+
+// How Pointers, Dates, GeoPoints and Files are flattened in exported rows
+const FLATTEN_STRATEGIES = ["simple", "expanded", "raw"];
+
+type FlattenStrategy = "simple" | "expanded" | "raw";
+
+const EXPORT_MIME_TYPES: Record<string, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+  json: "application/json",
+};
+
+// Exports published as parse://exports/{id} are kept in memory
+const MAX_EXPORT_RESOURCES = 20;
+const MAX_EXPORT_RESOURCE_BYTES = 20 * 1024 * 1024;
+
+interface ExportResource {
+  id: string;
+  uri: string;
+  name: string;
+  mimeType: string;
+  createdAt: string;
+  rowCount: number;
+  content: string;
+}
+
+const exportResources = new Map<string, ExportResource>();
+
+/**
+ * Returns the field definitions of a class, or undefined when the schema
+ * can't be read (e.g. without the master key).
+ */
+async function getSchemaFields(
+  profile: ParseProfile,
+  className: string
+): Promise<Record<string, { type: string; targetClass?: string }> | undefined> {
+  try {
+    // Schema#get resolves with the raw REST response
+    const schema = (await new profile.Parse.Schema(
+      className
+    ).get()) as unknown as {
+      fields: Record<string, { type: string; targetClass?: string }>;
+    };
+    return schema.fields;
+  } catch {
+    return undefined;
+  }
+}
+
+// Names of the columns a field of the given type is written to
+function exportColumns(
+  field: string,
+  type: string,
+  strategy: FlattenStrategy
+): string[] {
+  if (strategy === "expanded") {
+    switch (type) {
+      case "Pointer":
+        return [`${field}.className`, `${field}.objectId`];
+      case "GeoPoint":
+        return [`${field}.latitude`, `${field}.longitude`];
+      case "File":
+        return [`${field}.name`, `${field}.url`];
+    }
+  }
+  return [field];
+}
+
+function flattenRow(
+  json: Record<string, unknown>,
+  strategy: FlattenStrategy
+): Record<string, unknown> {
+  if (strategy === "raw") {
+    return json;
+  }
+  const row: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(json)) {
+    const typed = value as Record<string, unknown>;
+    const type = describeValueType(value);
+    // Included pointers come back as full objects ({ __type: "Object" })
+    const columns = exportColumns(
+      field,
+      type === "Object" ? "Pointer" : type,
+      strategy
+    );
+    const expanded = columns.length > 1;
+    switch (type) {
+      case "Date":
+        row[field] = typed.iso;
+        break;
+      case "Pointer":
+      case "Object":
+        if (expanded) {
+          row[columns[0]] = typed.className;
+          row[columns[1]] = typed.objectId;
+        } else {
+          row[field] = typed.objectId;
+        }
+        break;
+      case "GeoPoint":
+        if (expanded) {
+          row[columns[0]] = typed.latitude;
+          row[columns[1]] = typed.longitude;
+        } else {
+          row[field] = `${typed.latitude},${typed.longitude}`;
+        }
+        break;
+      case "File":
+        if (expanded) {
+          row[columns[0]] = typed.name;
+          row[columns[1]] = typed.url;
+        } else {
+          row[field] = typed.url;
+        }
+        break;
+      default:
+        // Plain Object fields stay in one column; toCsvCell writes them as JSON
+        row[field] = value;
+    }
+  }
+  return row;
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Resolves a file path argument, refusing paths that leave `directory`
+function resolveInsideDirectory(
+  directory: string,
+  filePath: string,
+  argument: string
+): string {
+  const base = path.resolve(directory);
+  const resolved = path.resolve(base, filePath);
+  if (!resolved.startsWith(base + path.sep)) {
+    throw new Error(`${argument} must be inside ${base}`);
+  }
+  return resolved;
+}
+
+/**
+ * Streams every object matching a query, batch by batch, to a CSV, NDJSON or
+ * JSON file, or to an in-memory parse://exports/{id} resource.
+ */
+async function exportQuery(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const className = args.className as string;
+  const keys = args.keys as string[] | undefined;
+  const exportFormat = (args.exportFormat as string) || "csv";
+  if (!EXPORT_FORMATS.includes(exportFormat)) {
+    return {
+      error: `Unknown exportFormat "${exportFormat}". Use one of: ${EXPORT_FORMATS.join(", ")}`,
+    };
+  }
+  const strategy = ((args.flatten as string) ||
+    (exportFormat === "csv" ? "simple" : "raw")) as FlattenStrategy;
+  if (!FLATTEN_STRATEGIES.includes(strategy)) {
+    return {
+      error: `Unknown flatten strategy "${strategy}". Use one of: ${FLATTEN_STRATEGIES.join(", ")}`,
+    };
+  }
+
+  const filePath = args.outputPath
+    ? resolveInsideDirectory(
+        MCP_EXPORT_DIR,
+        args.outputPath as string,
+        "outputPath"
+      )
+    : undefined;
+  const chunks: string[] = [];
+  let bytes = 0;
+  const write = (text: string) => {
+    bytes += Buffer.byteLength(text);
+    if (filePath) {
+      fs.appendFileSync(filePath, text);
+    } else if (bytes > MAX_EXPORT_RESOURCE_BYTES) {
+      throw new Error(
+        `Export exceeds ${MAX_EXPORT_RESOURCE_BYTES} bytes. Use outputPath to write it to a file.`
+      );
+    } else {
+      chunks.push(text);
+    }
+  };
+  if (filePath) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, "");
+  }
+
+  // CSV columns come from the schema, or from the first batch without it
+  let columns: string[] | undefined;
+  const droppedColumns = new Set<string>();
+  if (exportFormat === "csv") {
+    const fields = await getSchemaFields(profile, className);
+    if (fields) {
+      const names = keys
+        ? ["objectId", ...keys, "createdAt", "updatedAt"]
+        : Object.keys(fields).filter((name) => name !== "ACL");
+      columns = [...new Set(names)].flatMap((name) =>
+        exportColumns(name, fields[name]?.type || "String", strategy)
+      );
+    }
+  }
+
+  let rowCount = 0;
+  if (exportFormat === "json") {
+    write("[");
+  }
+  const { nextCursor } = await scanQuery(
+    profile,
+    {
+      className,
+      where: args.where as Record<string, unknown> | undefined,
+      order: args.order as string | undefined,
+      include: args.include as string[] | undefined,
+      keys,
+    },
+    Math.min(
+      (args.maxObjects as number) || MAX_OBJECTS_LIMIT,
+      MAX_OBJECTS_LIMIT
+    ),
+    (batch) => {
+      const rows = batch.map((obj) =>
+        flattenRow(obj.toJSON() as Record<string, unknown>, strategy)
+      );
+      if (exportFormat === "csv") {
+        const header = (columns ||= [
+          ...new Set(rows.flatMap((row) => Object.keys(row))),
+        ]);
+        if (rowCount === 0) {
+          write(header.map(toCsvCell).join(",") + "\n");
+        }
+        for (const row of rows) {
+          Object.keys(row)
+            .filter((column) => !header.includes(column))
+            .forEach((column) => droppedColumns.add(column));
+        }
+        write(
+          rows
+            .map(
+              (row) =>
+                header.map((column) => toCsvCell(row[column])).join(",") + "\n"
+            )
+            .join("")
+        );
+      } else if (exportFormat === "ndjson") {
+        write(rows.map((row) => JSON.stringify(row) + "\n").join(""));
+      } else {
+        write(
+          rows
+            .map(
+              (row, index) =>
+                (rowCount + index === 0 ? "\n" : ",\n") + JSON.stringify(row)
+            )
+            .join("")
+        );
+      }
+      rowCount += rows.length;
+    },
+    args.cursor as string | undefined
+  );
+  if (exportFormat === "json") {
+    write("\n]\n");
+  }
+
+  const result: Record<string, unknown> = {
+    success: true,
+    className,
+    exportFormat,
+    flatten: strategy,
+    rowCount,
+    bytes,
+    columns,
+    droppedColumns: droppedColumns.size > 0 ? [...droppedColumns] : undefined,
+    truncated: !!nextCursor,
+    nextCursor,
+  };
+
+  if (filePath) {
+    result.path = filePath;
+    return result;
+  }
+
+  const id = randomUUID();
+  const resource: ExportResource = {
+    id,
+    uri: `parse://exports/${id}`,
+    name: `${className}.${exportFormat}`,
+    mimeType: EXPORT_MIME_TYPES[exportFormat],
+    createdAt: new Date().toISOString(),
+    rowCount,
+    content: chunks.join(""),
+  };
+  exportResources.set(id, resource);
+  // Drop the oldest exports beyond the limit
+  for (const oldId of exportResources.keys()) {
+    if (exportResources.size <= MAX_EXPORT_RESOURCES) {
+      break;
+    }
+    exportResources.delete(oldId);
+  }
+  result.uri = resource.uri;
+  result.mimeType = resource.mimeType;
+  return result;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+// Objects per REST batch request (the Parse Server batch limit)
+const IMPORT_CHUNK_SIZE = 50;
+
+// Rows processed per import_data call; the checkpoint resumes after them
+const DEFAULT_IMPORT_ROWS = 1000;
+const MAX_IMPORT_ROWS = 10000;
+
+// Types whose parts can come from dotted columns ("owner.objectId")
+const COMPOSITE_TYPES = new Set(["Pointer", "GeoPoint", "File"]);
+
+type SchemaField = { type: string; targetClass?: string };
+
+interface ImportRowResult {
+  row: number;
+  status: "created" | "updated" | "error";
+  objectId?: string;
+  error?: string;
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, "" escapes, newlines in quotes).
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+function readImportRows(
+  text: string,
+  inputFormat: string
+): Record<string, unknown>[] {
+  if (inputFormat === "ndjson") {
+    return text
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid JSON on line ${index + 1}`);
+        }
+      });
+  }
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  return rows.map((cells) =>
+    Object.fromEntries(header.map((column, i) => [column.trim(), cells[i]]))
+  );
+}
+
+// Field types whose values can come as JSON text (e.g. in a CSV cell)
+const JSON_FIELD_TYPES = new Set([
+  "Date",
+  "Array",
+  "Object",
+  "ACL",
+  "Pointer",
+  "GeoPoint",
+  "File",
+  "Relation",
+]);
+
+/**
+ * Parses JSON text for field types that hold JSON. Other types keep their
+ * text, so a String like "[draft] title" is imported as is. Without a type
+ * (fields missing from the schema), text that isn't valid JSON is kept.
+ */
+function parseJSONValue(value: unknown, type?: string): unknown {
+  if (typeof value !== "string" || !/^\s*[[{]/.test(value)) {
+    return value;
+  }
+  if (type) {
+    return JSON_FIELD_TYPES.has(type) ? JSON.parse(value) : value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Converts an imported value to the Parse JSON for a schema field type.
+ * Throws with a readable message when the value doesn't fit the type.
+ */
+function coerceValue(value: unknown, field: SchemaField): unknown {
+  const parsed = parseJSONValue(value, field.type);
+  const typed = parsed as Record<string, unknown>;
+  switch (field.type) {
+    case "Number": {
+      const number = typeof parsed === "number" ? parsed : Number(parsed);
+      if (typeof parsed === "boolean" || Number.isNaN(number)) {
+        throw new Error(`"${value}" is not a Number`);
+      }
+      return number;
+    }
+    case "Boolean": {
+      if (typeof parsed === "boolean") {
+        return parsed;
+      }
+      const text = String(parsed).trim().toLowerCase();
+      if (["true", "1", "yes"].includes(text)) {
+        return true;
+      }
+      if (["false", "0", "no"].includes(text)) {
+        return false;
+      }
+      throw new Error(`"${value}" is not a Boolean`);
+    }
+    case "Date": {
+      const date = new Date(
+        typed?.__type === "Date" ? (typed.iso as string) : (parsed as string)
+      );
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`"${value}" is not a Date`);
+      }
+      return { __type: "Date", iso: date.toISOString() };
+    }
+    case "Pointer": {
+      if (typeof parsed === "string") {
+        return {
+          __type: "Pointer",
+          className: field.targetClass,
+          objectId: parsed,
+        };
+      }
+      if (typeof typed?.objectId !== "string") {
+        throw new Error("Pointer values need an objectId");
+      }
+      return {
+        __type: "Pointer",
+        className: typed.className || field.targetClass,
+        objectId: typed.objectId,
+      };
+    }
+    case "GeoPoint": {
+      const [latitude, longitude] =
+        typeof parsed === "string"
+          ? parsed.split(",").map(Number)
+          : [Number(typed?.latitude), Number(typed?.longitude)];
+      if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+        throw new Error(`"${value}" is not a GeoPoint ("lat,lng")`);
+      }
+      return { __type: "GeoPoint", latitude, longitude };
+    }
+    case "File": {
+      const url = typeof parsed === "string" ? parsed : typed?.url;
+      const name =
+        (typed?.name as string) ||
+        String(url || "")
+          .split("/")
+          .pop();
+      if (!name) {
+        throw new Error("File values need a name or url");
+      }
+      return { __type: "File", name, url };
+    }
+    case "Array":
+      if (!Array.isArray(parsed)) {
+        throw new Error(`"${value}" is not an Array`);
+      }
+      return parsed;
+    case "Object":
+    case "ACL":
+      if (!isRow(parsed)) {
+        throw new Error(`"${value}" is not an ${field.type}`);
+      }
+      return parsed;
+    case "Relation":
+      throw new Error("Relation fields can't be imported");
+    default:
+      return typeof parsed === "object"
+        ? JSON.stringify(parsed)
+        : String(parsed);
+  }
+}
+
+/**
+ * Maps a source row to Parse fields: renames columns, regroups dotted columns
+ * of Pointer/GeoPoint/File fields and coerces values to the schema types.
+ */
+function buildImportFields(
+  source: Record<string, unknown>,
+  mapping: Record<string, string | null>,
+  fields: Record<string, SchemaField> | undefined,
+  unknownFields: Set<string>
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(source)) {
+    const target = column in mapping ? mapping[column] : column;
+    if (!target || value === undefined || value === null || value === "") {
+      continue;
+    }
+    const [base, part] = target.split(/\.(.+)/);
+    if (part && COMPOSITE_TYPES.has(fields?.[base]?.type || "")) {
+      const composite = (values[base] ||= {}) as Record<string, unknown>;
+      composite[part] = value;
+    } else {
+      values[target] = value;
+    }
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(values)) {
+    if (field === "createdAt" || field === "updatedAt") {
+      continue;
+    }
+    if (!fields || field === "objectId") {
+      data[field] = value;
+    } else if (fields[field]) {
+      try {
+        data[field] = coerceValue(value, fields[field]);
+      } catch (error) {
+        throw new Error(`${field}: ${(error as Error).message}`);
+      }
+    } else {
+      unknownFields.add(field);
+      data[field] = parseJSONValue(value);
+    }
+  }
+  return data;
+}
+
+// Looks up existing objects by the upsert key, mapping key values to objectIds
+async function findUpsertTargets(
+  profile: ParseProfile,
+  className: string,
+  upsertKey: string,
+  values: unknown[]
+): Promise<Map<string, string[]>> {
+  const targets = new Map<string, string[]>();
+  if (values.length === 0) {
+    return targets;
+  }
+  const query = new profile.Parse.Query(className);
+  query.withJSON({ where: { [upsertKey]: { $in: values } } });
+  query.select([upsertKey]);
+  query.limit(values.length * 2);
+  const existing = await query.find({ useMasterKey: !!profile.masterKey });
+  for (const obj of existing) {
+    const key = canonicalJSON(
+      upsertKey === "objectId" ? obj.id : obj.toJSON()[upsertKey]
+    );
+    targets.set(key, [...(targets.get(key) || []), obj.id]);
+  }
+  return targets;
+}
+
+/**
+ * Imports CSV or NDJSON rows into a class with schema-aware coercion, in
+ * batches of 50, optionally upserting by a key field. Processes at most
+ * maxRows per call and returns a checkpoint to resume from. Objects about to
+ * be updated are snapshotted into the context, and every written object is
+ * added to its after-images, so the import can be undone.
+ */
+async function importData(
+  profile: ParseProfile,
+  args: Record<string, unknown>,
+  context: ToolCallContext
+): Promise<unknown> {
+  const className = args.className as string;
+  const upsertKey = args.upsertKey as string | undefined;
+  const mapping = (args.mapping as Record<string, string | null>) || {};
+  const dryRun = !!args.dryRun;
+  const stopOnError = !!args.stopOnError;
+  const startRow = (args.startRow as number) || 0;
+  const maxRows = Math.min(
+    (args.maxRows as number) || DEFAULT_IMPORT_ROWS,
+    MAX_IMPORT_ROWS
+  );
+
+  let text = args.content as string | undefined;
+  const filePath = args.filePath
+    ? resolveInsideDirectory(
+        MCP_IMPORT_DIR,
+        args.filePath as string,
+        "filePath"
+      )
+    : undefined;
+  if (filePath) {
+    text = fs.readFileSync(filePath, "utf8");
+  }
+  if (text === undefined) {
+    return { error: "Provide either filePath or content" };
+  }
+  const inputFormat =
+    (args.inputFormat as string) ||
+    (/\.(ndjson|jsonl)$/i.test(filePath || "") ? "ndjson" : "csv");
+
+  const allRows = readImportRows(text, inputFormat);
+  const rows = allRows.slice(startRow, startRow + maxRows);
+  const fields = await getSchemaFields(profile, className);
+  const unknownFields = new Set<string>();
+  const results: ImportRowResult[] = [];
+  const serverPath = new URL(profile.serverUrl).pathname.replace(/\/+$/, "");
+
+  let processed = 0;
+  for (let offset = 0; offset < rows.length; offset += IMPORT_CHUNK_SIZE) {
+    // Coerce the chunk, keeping failed rows out of the batch
+    const chunk: { row: number; data: Record<string, unknown> }[] = [];
+    for (const [index, source] of rows
+      .slice(offset, offset + IMPORT_CHUNK_SIZE)
+      .entries()) {
+      const row = startRow + offset + index;
+      try {
+        chunk.push({
+          row,
+          data: buildImportFields(source, mapping, fields, unknownFields),
+        });
+      } catch (error) {
+        results.push({ row, status: "error", error: (error as Error).message });
+      }
+    }
+
+    const targets = upsertKey
+      ? await findUpsertTargets(
+          profile,
+          className,
+          upsertKey,
+          chunk
+            .map(({ data }) => data[upsertKey])
+            .filter((value) => value !== undefined)
+        )
+      : new Map<string, string[]>();
+
+    const writes: {
+      rows: number[];
+      objectId?: string;
+      data: Record<string, unknown>;
+    }[] = [];
+    // Rows sharing an upsert key in one chunk become a single write, so a new
+    // key creates one object instead of one per row
+    const writesByKey = new Map<string, (typeof writes)[number]>();
+    for (const { row, data } of chunk) {
+      const { objectId: _objectId, ...body } = data;
+      const key = upsertKey ? data[upsertKey] : undefined;
+      const matches = targets.get(canonicalJSON(key)) || [];
+      const pending = upsertKey
+        ? writesByKey.get(canonicalJSON(key))
+        : undefined;
+      if (upsertKey && key === undefined) {
+        results.push({
+          row,
+          status: "error",
+          error: `Missing upsert key "${upsertKey}"`,
+        });
+      } else if (matches.length > 1) {
+        results.push({
+          row,
+          status: "error",
+          error: `${matches.length} objects match ${upsertKey}=${JSON.stringify(key)}`,
+        });
+      } else if (pending) {
+        pending.rows.push(row);
+        Object.assign(pending.data, body);
+      } else {
+        const write = { rows: [row], objectId: matches[0], data: body };
+        writes.push(write);
+        if (upsertKey) {
+          writesByKey.set(canonicalJSON(key), write);
+        }
+      }
+    }
+
+    if (dryRun) {
+      for (const { rows, objectId } of writes) {
+        for (const row of rows) {
+          results.push({
+            row,
+            status: objectId ? "updated" : "created",
+            objectId,
+          });
+        }
+      }
+    } else if (writes.length > 0) {
+      const updatedIds = writes
+        .map(({ objectId }) => objectId)
+        .filter((objectId): objectId is string => !!objectId);
+      const before = await fetchObjectsById(profile, className, updatedIds);
+      for (const objectId of updatedIds) {
+        (context.beforeImages ||= []).push({
+          className,
+          objectId,
+          exists: before.has(objectId),
+          data: before.get(objectId),
+        });
+      }
+      const responses = await parseRequest<
+        {
+          success?: {
+            objectId?: string;
+            createdAt?: string;
+            updatedAt?: string;
+          };
+          error?: { error: string };
+        }[]
+      >(profile, "POST", "batch", {
+        requests: writes.map(({ objectId, data }) => ({
+          method: objectId ? "PUT" : "POST",
+          path: `${serverPath}/classes/${className}${objectId ? `/${objectId}` : ""}`,
+          body: data,
+        })),
+      });
+      writes.forEach(({ rows, objectId, data }, index) => {
+        const response = responses[index];
+        const success = response?.success;
+        const writtenId = objectId || success?.objectId;
+        if (success && writtenId) {
+          // What undo compares against: the object as this import left it
+          (context.afterImages ||= {})[writtenId] = {
+            ...before.get(writtenId),
+            ...data,
+            objectId: writtenId,
+            updatedAt: success.updatedAt || success.createdAt,
+          };
+        }
+        for (const row of rows) {
+          results.push(
+            success
+              ? {
+                  row,
+                  status: objectId ? "updated" : "created",
+                  objectId: writtenId,
+                }
+              : { row, status: "error", error: response?.error?.error }
+          );
+        }
+      });
+    }
+
+    processed = Math.min(offset + IMPORT_CHUNK_SIZE, rows.length);
+    if (stopOnError && results.some((result) => result.status === "error")) {
+      break;
+    }
+  }
+
+  results.sort((a, b) => a.row - b.row);
+  const nextRow = startRow + processed;
+  const count = (status: ImportRowResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+  return {
+    dryRun: dryRun || undefined,
+    className,
+    inputFormat,
+    totalRows: allRows.length,
+    processed,
+    created: count("created"),
+    updated: count("updated"),
+    errors: count("error"),
+    schemaAvailable: !!fields,
+    unknownFields: unknownFields.size > 0 ? [...unknownFields] : undefined,
+    checkpoint:
+      nextRow < allRows.length
+        ? {
+            startRow: nextRow,
+            note: "Call import_data again with the same source and this startRow to continue",
+          }
+        : undefined,
+    results,
+  };
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+const DEFAULT_DOWNLOAD_BYTES = 1024 * 1024;
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+// Distinct URLs find_orphaned_files checks per call, and how many at once
+const MAX_FILE_CHECKS = 1000;
+const FILE_CHECK_CONCURRENCY = 5;
+const FILE_REQUEST_TIMEOUT_MS = 10000;
+const MAX_FILE_REDIRECTS = 5;
+
+// Content types download_file returns as text
+const TEXT_CONTENT_TYPE_PATTERN =
+  /^text\/|json|xml|javascript|csv|yaml|x-www-form-urlencoded/;
+
+// Downloads published as parse://files/{id}, kept in memory like exports
+const MAX_DOWNLOAD_RESOURCES = 20;
+
+interface DownloadResource {
+  id: string;
+  uri: string;
+  name: string;
+  mimeType: string;
+  createdAt: string;
+  size: number;
+  text?: string;
+  blob?: string;
+}
+
+const downloadResources = new Map<string, DownloadResource>();
+
+interface UrlProbe {
+  reachable: boolean;
+  status?: number;
+  size?: number;
+  contentType?: string;
+  error?: string;
+}
+
+/**
+ * Rejects a caller-supplied URL outside the Parse Server and the configured
+ * files host, so file tools can't be used to reach other servers.
+ */
+function assertFileUrl(profile: ParseProfile, url: string): void {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    throw new Error(`Invalid file URL "${url}"`);
+  }
+  const allowed = [profile.serverUrl, profile.filesUrl]
+    .filter((base): base is string => !!base)
+    .map((base) => new URL(base).origin);
+  if (!allowed.includes(origin)) {
+    throw new Error(
+      `${origin} is not the Parse Server or the files host (${allowed.join(", ")}). Set filesUrl (PARSE_FILES_URL) if files are served from another host.`
+    );
+  }
+}
 
-⚠️ **WARNING: This tool MODIFIES server configuration!**
-🛡️ **ALWAYS ask the user for permission before updating config.**
+/**
+ * Fetches a file URL, following redirects only while they stay on the Parse
+ * Server or the files host.
+ */
+async function fetchFileUrl(
+  profile: ParseProfile,
+  url: string,
+  init: RequestInit = {}
+): Promise<globalThis.Response> {
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(url, {
+      ...init,
+      redirect: "manual",
+      signal: AbortSignal.timeout(FILE_REQUEST_TIMEOUT_MS),
+    });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_FILE_REDIRECTS) {
+      throw new Error(`More than ${MAX_FILE_REDIRECTS} redirects for ${url}`);
+    }
+    url = new URL(location, url).toString();
+    assertFileUrl(profile, url);
+  }
+}
 
-Updates Parse Config values.
+/**
+ * Finds the file a tool call refers to: a URL on the Parse Server or files
+ * host, a stored file name, or the File field of an object.
+ */
+async function resolveFile(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<{ name: string; url: string }> {
+  if (args.url) {
+    const url = args.url as string;
+    assertFileUrl(profile, url);
+    return { name: decodeURIComponent(url.split("/").pop() || url), url };
+  }
+  if (args.name) {
+    const name = args.name as string;
+    return {
+      name,
+      url: `${profile.serverUrl.replace(/\/$/, "")}/files/${profile.appId}/${encodeURIComponent(name)}`,
+    };
+  }
+  if (args.className && args.objectId && args.fieldName) {
+    const obj = await new profile.Parse.Query(args.className as string).get(
+      args.objectId as string,
+      { useMasterKey: !!profile.masterKey }
+    );
+    const file = obj.get(args.fieldName as string) as ParseSDK.File | undefined;
+    if (!file?.url?.()) {
+      throw new Error(
+        `${args.className}.${args.fieldName} of ${args.objectId} holds no file`
+      );
+    }
+    return { name: file.name(), url: file.url()! };
+  }
+  throw new Error("Give url, name, or className + objectId + fieldName");
+}
 
-⚠️ REQUIRES MASTER KEY for config updates.
+/**
+ * Checks that a URL resolves with a HEAD request, falling back to a
+ * one-byte GET for servers that don't allow HEAD. With a profile, redirects
+ * are only followed to the Parse Server or the files host.
+ */
+async function probeUrl(
+  url: string,
+  profile?: ParseProfile
+): Promise<UrlProbe> {
+  const request = (init: RequestInit) =>
+    profile
+      ? fetchFileUrl(profile, url, init)
+      : fetch(url, {
+          ...init,
+          signal: AbortSignal.timeout(FILE_REQUEST_TIMEOUT_MS),
+        });
+  try {
+    let response = await request({ method: "HEAD" });
+    if (response.status === 405 || response.status === 501) {
+      response = await request({ headers: { Range: "bytes=0-0" } });
+      await response.body?.cancel();
+    }
+    const range = response.headers.get("content-range")?.split("/")[1];
+    const length = range || response.headers.get("content-length");
+    return {
+      reachable: response.ok,
+      status: response.status,
+      size: length && length !== "*" ? Number(length) : undefined,
+      contentType: response.headers.get("content-type") || undefined,
+    };
+  } catch (error) {
+    // fetch hides the network error (refused, DNS, timeout) in its cause
+    const cause = (error as { cause?: unknown }).cause;
+    return { reachable: false, error: String(cause || error) };
+  }
+}
 
-Parameters:
-- params: Object with config key-value pairs to set
+async function uploadFile(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  let base64 = args.base64 as string | undefined;
+  if (args.path) {
+    const filePath = resolveInsideDirectory(
+      MCP_IMPORT_DIR,
+      args.path as string,
+      "path"
+    );
+    base64 = fs.readFileSync(filePath).toString("base64");
+  }
+  if (!base64) {
+    return { error: "Give the file content with path or base64" };
+  }
+  const file = new profile.Parse.File(
+    args.name as string,
+    { base64 },
+    args.contentType as string | undefined
+  );
+  await file.save({ useMasterKey: !!profile.masterKey });
+  return {
+    __type: "File",
+    name: file.name(),
+    url: file.url(),
+    size: Buffer.from(base64, "base64").length,
+    contentType: args.contentType,
+    note: 'Set { "__type": "File", "name": ..., "url": ... } on a File field with create_object or update_object.',
+  };
+}
 
-Returns:
-- Success status`,
-    inputSchema: {
-      type: "object" as const,
-      properties: {
-        params: {
-          type: "object",
-          description: "Config key-value pairs to set",
-        },
-      },
-      required: ["params"],
-    },
-  },
-];
+async function downloadFile(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const { name, url } = await resolveFile(profile, args);
+  const maxBytes = Math.min(
+    (args.maxBytes as number) || DEFAULT_DOWNLOAD_BYTES,
+    MAX_DOWNLOAD_BYTES
+  );
+  const response = await fetchFileUrl(profile, url);
+  if (!response.ok) {
+    await response.body?.cancel();
+    return { error: `Download failed with HTTP ${response.status}`, url };
+  }
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    return {
+      error: `File is ${declared} bytes, more than maxBytes (${maxBytes})`,
+      url,
+    };
+  }
+  // Without a content-length, stop reading as soon as maxBytes is exceeded
+  const chunks: Buffer[] = [];
+  let received = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.length;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return {
+        error: `File is more than maxBytes (${maxBytes})`,
+        url,
+      };
+    }
+    chunks.push(Buffer.from(value));
+  }
+  const content = Buffer.concat(chunks);
+
+  const mimeType =
+    response.headers.get("content-type") || "application/octet-stream";
+  const encoding =
+    args.encoding === "text" || args.encoding === "base64"
+      ? args.encoding
+      : TEXT_CONTENT_TYPE_PATTERN.test(mimeType)
+        ? "text"
+        : "base64";
+  const id = randomUUID();
+  const resource: DownloadResource = {
+    id,
+    uri: `parse://files/${id}`,
+    name,
+    mimeType,
+    createdAt: new Date().toISOString(),
+    size: content.length,
+    ...(encoding === "text"
+      ? { text: content.toString("utf8") }
+      : { blob: content.toString("base64") }),
+  };
+  downloadResources.set(id, resource);
+  // Drop the oldest downloads beyond the limit
+  for (const oldId of downloadResources.keys()) {
+    if (downloadResources.size <= MAX_DOWNLOAD_RESOURCES) {
+      break;
+    }
+    downloadResources.delete(oldId);
+  }
 
-// ============================================================================
-// Prompt Definitions
-// ============================================================================
+  // Inline only content that would not be truncated; the rest is read from
+  // the resource
+  const inline = resource.text ?? resource.blob!;
+  const fits = inline.length <= MCP_MAX_STRING_LENGTH;
+  return {
+    name,
+    url,
+    uri: resource.uri,
+    mimeType,
+    size: content.length,
+    encoding,
+    content: fits ? inline : undefined,
+    note: fits
+      ? undefined
+      : `The content is ${inline.length} characters, over the ${MCP_MAX_STRING_LENGTH}-character limit. Read it from ${resource.uri}.`,
+  };
+}
 
-const PROMPTS = [
-  {
-    name: "explore_database",
-    description:
-      "Comprehensive prompt for exploring and understanding a Parse Server database",
-    arguments: [],
-  },
-  {
-    name: "troubleshoot_query",
-    description:
-      "Help troubleshoot a query that's not returning expected results",
-    arguments: [
-      {
-        name: "className",
-        description: "The class being queried",
-        required: true,
-      },
-      {
-        name: "issue",
-        description: "Description of the issue",
-        required: true,
-      },
-    ],
-  },
-  {
-    name: "safe_data_modification",
-    description: "Guidelines for safely modifying data with user approval",
-    arguments: [],
-  },
-];
+/**
+ * Scans the File fields of one or every class and probes each distinct URL,
+ * reporting the objects whose files no longer resolve.
+ */
+async function findOrphanedFiles(
+  profile: ParseProfile,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  const schemas = (args.className
+    ? [await new profile.Parse.Schema(args.className as string).get()]
+    : await profile.Parse.Schema.all()) as unknown as {
+    className: string;
+    fields: Record<string, { type: string }>;
+  }[];
+
+  const references = new Map<
+    string,
+    { className: string; objectId: string; field: string; name: string }[]
+  >();
+  let scannedObjects = 0;
+  const truncatedClasses: string[] = [];
+  for (const schema of schemas) {
+    const fileFields = Object.keys(schema.fields || {}).filter(
+      (field) => schema.fields[field].type === "File"
+    );
+    if (fileFields.length === 0) {
+      continue;
+    }
+    const { scanned, nextCursor } = await scanQuery(
+      profile,
+      { className: schema.className, keys: fileFields },
+      clampMaxObjects(args.maxObjects),
+      (batch) => {
+        for (const obj of batch) {
+          for (const field of fileFields) {
+            const file = obj.get(field) as ParseSDK.File | undefined;
+            const url = file?.url?.();
+            if (url) {
+              references.set(url, [
+                ...(references.get(url) || []),
+                {
+                  className: schema.className,
+                  objectId: obj.id,
+                  field,
+                  name: file!.name(),
+                },
+              ]);
+            }
+          }
+        }
+      }
+    );
+    scannedObjects += scanned;
+    if (nextCursor) {
+      truncatedClasses.push(schema.className);
+    }
+  }
+
+  const urls = [...references.keys()].slice(0, MAX_FILE_CHECKS);
+  const probes = new Map<string, UrlProbe>();
+  for (let i = 0; i < urls.length; i += FILE_CHECK_CONCURRENCY) {
+    const chunk = urls.slice(i, i + FILE_CHECK_CONCURRENCY);
+    const results = await Promise.all(chunk.map((url) => probeUrl(url)));
+    chunk.forEach((url, index) => probes.set(url, results[index]));
+  }
+
+  const broken = urls
+    .filter((url) => !probes.get(url)!.reachable)
+    .flatMap((url) =>
+      references.get(url)!.map((reference) => ({
+        ...reference,
+        url,
+        status: probes.get(url)!.status,
+        error: probes.get(url)!.error,
+      }))
+    );
+  return {
+    scannedObjects,
+    filesReferenced: references.size,
+    filesChecked: urls.length,
+    brokenFiles: new Set(broken.map((reference) => reference.url)).size,
+    broken,
+    truncatedClasses:
+      truncatedClasses.length > 0 ? truncatedClasses : undefined,
+    note:
+      references.size > urls.length
+        ? `Only the first ${MAX_FILE_CHECKS} distinct files were checked.`
+        : undefined,
+  };
+}
 
 // ============================================================================
 // Tool Implementation
 // ============================================================================
 
+async function checkProfileConnection(profile: ParseProfile) {
+  if (!profile.initialized) {
+    return { ...describeProfile(profile), status: "not_initialized" };
+  }
+  try {
+    // Try to make a simple query to check connection
+    const query = new profile.Parse.Query("_User");
+    query.limit(1);
+    await query.find({ useMasterKey: !!profile.masterKey });
+    return { ...describeProfile(profile), status: "connected" };
+  } catch (error: unknown) {
+    const parseError = error as { code?: number; message?: string };
+    return {
+      ...describeProfile(profile),
+      status: "error",
+      error: parseError.message || String(error),
+      code: parseError.code,
+    };
+  }
+}
+
+function handleLocalTool(
+  name: string,
+  args: Record<string, unknown>,
+  sessionId?: string
+): unknown {
+  switch (name) {
+    case "list_environments":
+      return {
+        activeEnvironment: getActiveEnvironment(sessionId),
+        readOnly,
+        environments: [...profiles.values()].map(describeProfile),
+      };
+
+    case "switch_environment": {
+      const environment = args.environment as string;
+      if (!profiles.has(environment)) {
+        return {
+          error: `Unknown environment "${environment}"`,
+          availableEnvironments: [...profiles.keys()],
+        };
+      }
+      const previous = getActiveEnvironment(sessionId);
+      activeEnvironments.set(sessionId || "", environment);
+      if (environment !== previous) {
+        notifyToolListChanged();
+      }
+      return {
+        success: true,
+        previousEnvironment: previous,
+        activeEnvironment: environment,
+        connection: describeProfile(profiles.get(environment)!),
+      };
+    }
+
+    case "get_audit_log":
+      return queryAuditLog(args);
+
+    case "list_changes":
+      return listChanges(args);
+
+    case "get_result_page":
+      return getResultPage(args, sessionId);
+
+    default:
+      return { error: `Unknown tool: ${name}` };
+  }
+}
+
 async function handleToolCall(
   name: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context: ToolCallContext
 ): Promise<unknown> {
+  const { sessionId } = context;
+  if (LOCAL_TOOLS.has(name)) {
+    return handleLocalTool(name, args, sessionId);
+  }
+
+  const environment = args.environment as string | undefined;
+  const profile = resolveProfile(environment, sessionId);
+  if (!profile) {
+    return {
+      error: `Unknown environment "${environment}"`,
+      availableEnvironments: [...profiles.keys()],
+    };
+  }
+
   // Check if Parse is initialized
-  if (!isInitialized && name !== "check_connection") {
+  if (!profile.initialized && name !== "check_connection") {
     return {
-      error:
-        "Parse Server not initialized. Please set PARSE_SERVER_URL and PARSE_APP_ID environment variables.",
+      error: `Parse Server not initialized for environment "${profile.name}": ${profile.error}`,
     };
   }
 
+  if (
+    USER_SCOPED_TOOLS.has(name) &&
+    (args.asUser || args.sessionToken) &&
+    !context.userScope
+  ) {
+    return runAsUser(profile, name, args, context);
+  }
+
+  // Every call goes through the profile's own isolated SDK instance
+  const Parse = profile.Parse;
+  // User-scoped calls use the user's session, everything else the Master Key
+  const requestOptions = context.userScope
+    ? { sessionToken: context.userScope.sessionToken }
+    : { useMasterKey: !!profile.masterKey };
+
   try {
+    if (args.dryRun && DRY_RUN_TOOLS.has(name)) {
+      return await previewChanges(profile, name, args);
+    }
+
+    if (
+      (MCP_REQUIRE_CONFIRMATION || ALWAYS_CONFIRMED_TOOLS.has(name)) &&
+      CONFIRMATION_TOOLS.has(name)
+    ) {
+      const response = await checkConfirmation(profile, name, args, sessionId);
+      if (response !== undefined) {
+        return response;
+      }
+    }
+
+    if (MUTATING_TOOLS.has(name)) {
+      context.beforeImages = await captureBeforeImages(profile, name, args);
+    }
+
     switch (name) {
       // === Connection & Health ===
       case "check_connection": {
-        try {
-          // Try to make a simple query to check connection
-          const query = new Parse.Query("_User");
-          query.limit(1);
-          await query.find({ useMasterKey: !!PARSE_MASTER_KEY });
+        if (args.allEnvironments) {
           return {
-            status: "connected",
-            serverUrl: PARSE_SERVER_URL,
-            appId: PARSE_APP_ID,
-            hasMasterKey: !!PARSE_MASTER_KEY,
-            hasJsKey: !!PARSE_JS_KEY,
-            hasRestKey: !!PARSE_REST_KEY,
+            activeEnvironment: getActiveEnvironment(sessionId),
+            environments: await Promise.all(
+              [...profiles.values()].map(checkProfileConnection)
+            ),
           };
-        } catch (error: unknown) {
-          const parseError = error as { code?: number; message?: string };
+        }
+        return checkProfileConnection(profile);
+      }
+
+      case "get_server_info": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to read server info" };
+        }
+        return describeServerInfo(profile, await detectServerInfo(profile));
+      }
+
+      // === Schema ===
+      case "get_all_schemas": {
+        if (!profile.masterKey) {
           return {
-            status: "error",
-            serverUrl: PARSE_SERVER_URL,
-            appId: PARSE_APP_ID,
-            hasMasterKey: !!PARSE_MASTER_KEY,
-            error: parseError.message || String(error),
-            code: parseError.code,
+            error: "Master Key is required to access schema information",
+          };
+        }
+        const schemas = await Parse.Schema.all();
+        return schemas.map((schema) => ({
+          className: schema.className,
+          fields: schema.fields,
+          classLevelPermissions: schema.classLevelPermissions,
+          indexes: schema.indexes,
+        }));
+      }
+
+      case "get_class_schema": {
+        if (!profile.masterKey) {
+          return {
+            error: "Master Key is required to access schema information",
+          };
+        }
+        const className = args.className as string;
+        const schema = new Parse.Schema(className);
+        const result = await schema.get();
+        const json = (
+          result as unknown as { toJSON(): Record<string, unknown> }
+        ).toJSON();
+        return {
+          className: json.className,
+          fields: json.fields,
+          classLevelPermissions: json.classLevelPermissions,
+          indexes: json.indexes,
+        };
+      }
+
+      // === Schema Management ===
+      case "create_class":
+      case "add_field":
+      case "delete_field":
+      case "add_index":
+      case "drop_index":
+      case "delete_class": {
+        if (!profile.masterKey) {
+          return {
+            error: "Master Key is required to modify the schema",
+          };
+        }
+        const className = args.className as string;
+        const schema = new Parse.Schema(className);
+
+        switch (name) {
+          case "create_class": {
+            const fields =
+              (args.fields as Record<string, FieldDefinition>) || {};
+            for (const [fieldName, definition] of Object.entries(fields)) {
+              addSchemaField(schema, fieldName, definition);
+            }
+            for (const [indexName, index] of Object.entries(
+              (args.indexes as Record<string, ParseSDK.Schema.Index>) || {}
+            )) {
+              schema.addIndex(indexName, index);
+            }
+            if (args.classLevelPermissions) {
+              schema.setCLP(args.classLevelPermissions as ParseSDK.Schema.CLP);
+            }
+            return describeSchema(await schema.save());
+          }
+
+          case "add_field":
+            addSchemaField(schema, args.fieldName as string, {
+              type: args.type as string,
+              targetClass: args.targetClass as string | undefined,
+              required: args.required as boolean | undefined,
+              defaultValue: args.defaultValue,
+            });
+            return describeSchema(await schema.update());
+
+          case "delete_field":
+            schema.deleteField(args.fieldName as string);
+            return describeSchema(await schema.update());
+
+          case "add_index":
+            schema.addIndex(
+              args.indexName as string,
+              args.index as ParseSDK.Schema.Index
+            );
+            return describeSchema(await schema.update());
+
+          case "drop_index":
+            schema.deleteIndex(args.indexName as string);
+            return describeSchema(await schema.update());
+
+          default: {
+            // delete_class: Parse Server refuses to delete non-empty classes
+            const count = await new Parse.Query(className).count({
+              useMasterKey: true,
+            });
+            if (count > 0 && !args.purge) {
+              return {
+                error: `Class ${className} has ${count} objects. Set purge: true to delete them together with the class.`,
+              };
+            }
+            if (count > 0) {
+              await schema.purge();
+            }
+            await schema.delete();
+            return { success: true, className, deletedObjects: count };
+          }
+        }
+      }
+
+      // === Security ===
+      case "set_class_permissions": {
+        if (!profile.masterKey) {
+          return {
+            error: "Master Key is required to modify the schema",
+          };
+        }
+        const className = args.className as string;
+        const before = await getClassLevelPermissions(profile, className);
+        const after = applyPermissionChanges(before, args);
+        const schema = new Parse.Schema(className);
+        schema.setCLP(after as ParseSDK.Schema.CLP);
+        const response = (await schema.update()) as unknown as {
+          classLevelPermissions?: ClassLevelPermissions;
+        };
+        return {
+          success: true,
+          className,
+          changes: diffFields(before, after),
+          classLevelPermissions: response.classLevelPermissions,
+        };
+      }
+
+      case "audit_security": {
+        if (!profile.masterKey) {
+          return {
+            error: "Master Key is required to access schema information",
           };
         }
+        const schemas = (args.className
+          ? [await new Parse.Schema(args.className as string).get()]
+          : await Parse.Schema.all()) as unknown as {
+          className: string;
+          fields: Record<string, { type: string }>;
+          classLevelPermissions?: ClassLevelPermissions;
+        }[];
+
+        const audited = schemas.filter(
+          (schema) =>
+            args.includeSystemClasses !== false ||
+            !schema.className.startsWith("_") ||
+            schema.className === "_User"
+        );
+        const severityOrder = { high: 0, medium: 1, low: 2 };
+        const findings = audited
+          .flatMap((schema) =>
+            auditClassPermissions(
+              schema.className,
+              schema.classLevelPermissions || {},
+              schema.fields || {}
+            )
+          )
+          .sort(
+            (a, b) => severityOrder[a.severity] - severityOrder[b.severity]
+          );
+
+        return {
+          scannedClasses: audited.length,
+          summary: {
+            high: findings.filter((f) => f.severity === "high").length,
+            medium: findings.filter((f) => f.severity === "medium").length,
+            low: findings.filter((f) => f.severity === "low").length,
+          },
+          findings,
+          note: "Only class-level permissions are checked. Object ACLs, Cloud Code triggers and server options (allowClientClassCreation, protectedFields) can tighten or loosen access further.",
+        };
+      }
+
+      case "get_object_acl": {
+        const className = args.className as string;
+        const objectId = args.objectId as string;
+        const obj = await new Parse.Query(className).get(objectId, {
+          useMasterKey: !!profile.masterKey,
+        });
+        return {
+          className,
+          objectId,
+          acl: obj.toJSON().ACL,
+          ...(await describeACL(profile, obj.toJSON().ACL as ACLJSON)),
+        };
       }
 
-      // === Schema ===
-      case "get_all_schemas": {
-        if (!PARSE_MASTER_KEY) {
-          return {
-            error: "Master Key is required to access schema information",
-          };
-        }
-        const schemas = await Parse.Schema.all();
-        return schemas.map((schema) => ({
-          className: schema.className,
-          fields: schema.fields,
-          classLevelPermissions: schema.classLevelPermissions,
-          indexes: schema.indexes,
-        }));
+      case "set_object_acl": {
+        const className = args.className as string;
+        const objectId = args.objectId as string;
+        const grants = await resolveACLGrants(
+          profile,
+          (args.grants as ACLGrant[]) || []
+        );
+        const obj = await new Parse.Query(className).get(objectId, {
+          useMasterKey: !!profile.masterKey,
+        });
+        const before = obj.toJSON().ACL as ACLJSON | undefined;
+        const after =
+          (args.replace as ACLJSON) || applyACLGrants(before || {}, grants);
+        obj.setACL(new Parse.ACL(after));
+        await obj.save(null, { useMasterKey: !!profile.masterKey });
+        return {
+          success: true,
+          className,
+          objectId,
+          changes: diffACL(before, after),
+          ...(await describeACL(profile, after)),
+        };
       }
 
-      case "get_class_schema": {
-        if (!PARSE_MASTER_KEY) {
+      case "bulk_set_object_acl": {
+        const className = args.className as string;
+        const grants = await resolveACLGrants(
+          profile,
+          (args.grants as ACLGrant[]) || []
+        );
+        let updated = 0;
+        let unchanged = 0;
+        const { scanned, nextCursor } = await scanQuery(
+          profile,
+          { className, where: args.where as Record<string, unknown> },
+          Math.min((args.maxObjects as number) || 1000, MAX_OBJECTS_LIMIT),
+          async (batch) => {
+            const changed = batch.filter((obj) => {
+              const before = obj.toJSON().ACL as ACLJSON | undefined;
+              const after =
+                (args.replace as ACLJSON) ||
+                applyACLGrants(before || {}, grants);
+              if (isSameACL(before, after)) {
+                unchanged++;
+                return false;
+              }
+              // Snapshot the previous ACL so undo_change can restore it
+              (context.beforeImages ||= []).push({
+                className,
+                objectId: obj.id,
+                exists: true,
+                data: { ACL: before },
+              });
+              (context.afterImages ||= {})[obj.id] = {
+                objectId: obj.id,
+                ACL: after,
+              };
+              obj.setACL(new Parse.ACL(after));
+              return true;
+            });
+            await Parse.Object.saveAll(changed, {
+              useMasterKey: !!profile.masterKey,
+              batchSize: 50,
+            });
+            updated += changed.length;
+          },
+          args.cursor as string | undefined
+        );
+        return {
+          success: true,
+          className,
+          matched: scanned,
+          updated,
+          unchanged,
+          truncated: !!nextCursor,
+          nextCursor,
+          note: nextCursor
+            ? "More objects match. Call again with cursor: nextCursor to continue."
+            : undefined,
+        };
+      }
+
+      case "explain_access": {
+        if (!profile.masterKey) {
           return {
             error: "Master Key is required to access schema information",
           };
         }
-        const className = args.className as string;
-        const schema = new Parse.Schema(className);
-        const result = await schema.get();
-        const json = (
-          result as unknown as { toJSON(): Record<string, unknown> }
-        ).toJSON();
-        return {
-          className: json.className,
-          fields: json.fields,
-          classLevelPermissions: json.classLevelPermissions,
-          indexes: json.indexes,
-        };
+        return explainAccess(profile, args);
       }
 
       // === Data Exploration ===
@@ -1223,7 +10610,7 @@ async function handleToolCall(
           }
         }
 
-        const results = await query.find({ useMasterKey: !!PARSE_MASTER_KEY });
+        const results = await query.find({ useMasterKey: !!profile.masterKey });
         return results.map((obj) => obj.toJSON());
       }
 
@@ -1267,10 +10654,49 @@ async function handleToolCall(
 
         let count: number | undefined;
         if (withCount) {
-          count = await query.count({ useMasterKey: !!PARSE_MASTER_KEY });
+          count = await query.count(requestOptions);
         }
 
-        const results = await query.find({ useMasterKey: !!PARSE_MASTER_KEY });
+        const cursor = args.cursor as string | undefined;
+        const cursorQuery = { className, where, order, include, keys };
+
+        if (args.fetchAll) {
+          const results: unknown[] = [];
+          const { nextCursor } = await scanQuery(
+            profile,
+            cursorQuery,
+            clampMaxObjects(args.maxObjects),
+            (batch) => {
+              results.push(...batch.map((obj) => obj.toJSON()));
+            },
+            cursor,
+            requestOptions
+          );
+          return {
+            results,
+            count,
+            fetched: results.length,
+            truncated: !!nextCursor,
+            nextCursor,
+          };
+        }
+
+        if (cursor || args.useCursor) {
+          const page = await fetchCursorPage(
+            profile,
+            cursorQuery,
+            limit,
+            cursor,
+            requestOptions
+          );
+          return {
+            results: page.results.map((obj) => obj.toJSON()),
+            count,
+            nextCursor: page.nextCursor,
+          };
+        }
+
+        const results = await query.find(requestOptions);
         return {
           results: results.map((obj) => obj.toJSON()),
           count: count,
@@ -1286,7 +10712,7 @@ async function handleToolCall(
           query.withJSON({ where });
         }
 
-        const count = await query.count({ useMasterKey: !!PARSE_MASTER_KEY });
+        const count = await query.count({ useMasterKey: !!profile.masterKey });
         return { count };
       }
 
@@ -1300,9 +10726,7 @@ async function handleToolCall(
           include.forEach((field) => query.include(field));
         }
 
-        const result = await query.get(objectId, {
-          useMasterKey: !!PARSE_MASTER_KEY,
-        });
+        const result = await query.get(objectId, requestOptions);
         return result.toJSON();
       }
 
@@ -1318,7 +10742,7 @@ async function handleToolCall(
 
         const parentQuery = new Parse.Query(parentClassName);
         const parent = await parentQuery.get(parentObjectId, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
 
         const relation = parent.relation(relationKey);
@@ -1339,7 +10763,7 @@ async function handleToolCall(
           }
         }
 
-        const results = await query.find({ useMasterKey: !!PARSE_MASTER_KEY });
+        const results = await query.find({ useMasterKey: !!profile.masterKey });
         return results.map((obj) => obj.toJSON());
       }
 
@@ -1393,7 +10817,7 @@ async function handleToolCall(
         }
 
         const result = await obj.save(null, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
         return result.toJSON();
       }
@@ -1405,7 +10829,7 @@ async function handleToolCall(
 
         const query = new Parse.Query(className);
         const obj = await query.get(objectId, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
 
         for (const [key, value] of Object.entries(data)) {
@@ -1471,7 +10895,7 @@ async function handleToolCall(
         }
 
         const result = await obj.save(null, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
         return result.toJSON();
       }
@@ -1482,9 +10906,9 @@ async function handleToolCall(
 
         const query = new Parse.Query(className);
         const obj = await query.get(objectId, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
-        await obj.destroy({ useMasterKey: !!PARSE_MASTER_KEY });
+        await obj.destroy({ useMasterKey: !!profile.masterKey });
 
         return { success: true, deleted: { className, objectId } };
       }
@@ -1499,7 +10923,7 @@ async function handleToolCall(
 
         const parentQuery = new Parse.Query(parentClassName);
         const parent = await parentQuery.get(parentObjectId, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
 
         const relation = parent.relation(relationKey);
@@ -1510,7 +10934,7 @@ async function handleToolCall(
           relation.add(target);
         }
 
-        await parent.save(null, { useMasterKey: !!PARSE_MASTER_KEY });
+        await parent.save(null, { useMasterKey: !!profile.masterKey });
         return { success: true, added: targetObjectIds.length };
       }
 
@@ -1523,7 +10947,7 @@ async function handleToolCall(
 
         const parentQuery = new Parse.Query(parentClassName);
         const parent = await parentQuery.get(parentObjectId, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
 
         const relation = parent.relation(relationKey);
@@ -1534,7 +10958,7 @@ async function handleToolCall(
           relation.remove(target);
         }
 
-        await parent.save(null, { useMasterKey: !!PARSE_MASTER_KEY });
+        await parent.save(null, { useMasterKey: !!profile.masterKey });
         return { success: true, removed: targetObjectIds.length };
       }
 
@@ -1567,14 +10991,139 @@ async function handleToolCall(
           query.select(keys);
         }
 
-        const results = await query.find({ useMasterKey: !!PARSE_MASTER_KEY });
+        const results = await query.find({ useMasterKey: !!profile.masterKey });
         return results.map((obj) => obj.toJSON());
       }
 
+      case "get_user": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage users" };
+        }
+        const user = await requireUser(profile, args.user as string);
+        const sessions = await getUserSessions(profile, user, false);
+        return {
+          user: describeUser(user),
+          roles: await getUserRoles(profile, user.id),
+          activeSessions: sessions.length,
+          lastSessionCreatedAt: sessions[0]?.createdAt?.toISOString(),
+        };
+      }
+
+      case "update_user": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage users" };
+        }
+        const data = args.data as Record<string, unknown>;
+        const blocked = Object.keys(data).filter((field) =>
+          USER_UPDATE_BLOCKED_FIELDS.has(field)
+        );
+        if (blocked.length > 0) {
+          return {
+            error: `update_user can't set ${blocked.join(", ")}. Use request_password_reset for passwords.`,
+          };
+        }
+        const user = await requireUser(profile, args.user as string);
+        for (const [field, value] of Object.entries(data)) {
+          user.set(field, value);
+        }
+        await user.save(null, { useMasterKey: true });
+        return describeUser(user);
+      }
+
+      case "set_user_disabled": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage users" };
+        }
+        const user = await requireUser(profile, args.user as string);
+        const before = user.get("disabled");
+        const disabled = !!args.disabled;
+        user.set("disabled", disabled);
+        await user.save(null, { useMasterKey: true });
+
+        // Sessions are read 1000 at a time, so revoke until none are left
+        let revokedSessions = 0;
+        while (disabled) {
+          const sessions = await getUserSessions(profile, user);
+          if (sessions.length === 0) {
+            break;
+          }
+          await Parse.Object.destroyAll(sessions, { useMasterKey: true });
+          revokedSessions += sessions.length;
+        }
+        return {
+          success: true,
+          objectId: user.id,
+          username: user.get("username"),
+          disabled,
+          changes: diffFields({ disabled: before }, { disabled }),
+          revokedSessions,
+          note: "Existing sessions are revoked, but Parse Server doesn't block new logins by itself: they are only refused if a beforeLogin trigger rejects users with disabled: true.",
+        };
+      }
+
+      case "request_password_reset":
+      case "request_email_verification": {
+        const user = await requireUser(profile, args.user as string);
+        const email = user.get("email") as string | undefined;
+        if (!email) {
+          return { error: `User ${user.get("username")} has no email address` };
+        }
+        if (name === "request_password_reset") {
+          await Parse.User.requestPasswordReset(email);
+        } else {
+          await Parse.User.requestEmailVerification(email);
+        }
+        return {
+          success: true,
+          objectId: user.id,
+          username: user.get("username"),
+          email,
+          note:
+            name === "request_password_reset"
+              ? "Parse Server sent the password reset email."
+              : "Parse Server sent the verification email.",
+        };
+      }
+
+      case "list_user_sessions": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage users" };
+        }
+        const user = await requireUser(profile, args.user as string);
+        const sessions = await getUserSessions(
+          profile,
+          user,
+          !!args.includeExpired
+        );
+        return {
+          objectId: user.id,
+          username: user.get("username"),
+          sessions: sessions.map(describeSession),
+        };
+      }
+
+      case "revoke_user_sessions": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage users" };
+        }
+        const user = await requireUser(profile, args.user as string);
+        const sessionIds = args.sessionIds as string[] | undefined;
+        const sessions = (await getUserSessions(profile, user)).filter(
+          (session) => !sessionIds || sessionIds.includes(session.id)
+        );
+        await Parse.Object.destroyAll(sessions, { useMasterKey: true });
+        return {
+          success: true,
+          objectId: user.id,
+          username: user.get("username"),
+          revoked: sessions.map(describeSession),
+        };
+      }
+
       // === Roles ===
       case "get_roles": {
         const query = new Parse.Query(Parse.Role);
-        const results = await query.find({ useMasterKey: !!PARSE_MASTER_KEY });
+        const results = await query.find({ useMasterKey: !!profile.masterKey });
         return results.map((role) => ({
           name: role.getName(),
           objectId: role.id,
@@ -1588,20 +11137,188 @@ async function handleToolCall(
         const roleQuery = new Parse.Query(Parse.Role);
         roleQuery.equalTo("name", roleName);
         const role = await roleQuery.first({
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
 
         if (!role) {
           return { error: `Role "${roleName}" not found` };
         }
 
-        const usersRelation = role.getUsers();
-        const usersQuery = usersRelation.query();
-        const users = await usersQuery.find({
-          useMasterKey: !!PARSE_MASTER_KEY,
+        return await getRoleMembers(profile, role);
+      }
+
+      case "get_role_tree":
+        return await describeRoleTree(profile, args.user as string | undefined);
+
+      case "create_role": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage roles" };
+        }
+        const name = args.name as string;
+        if (!ROLE_NAME_PATTERN.test(name)) {
+          return {
+            error: `Invalid role name "${name}". Use letters, numbers, spaces, - and _`,
+          };
+        }
+        const users = await findUsers(profile, (args.users as string[]) || []);
+        const childRoles = await Promise.all(
+          ((args.childRoles as string[]) || []).map((child) =>
+            findRole(profile, child)
+          )
+        );
+        const acl = (args.acl as ACLJSON) || { "*": { read: true } };
+        const role = new Parse.Role(
+          name,
+          new Parse.ACL(acl as ConstructorParameters<typeof Parse.ACL>[0])
+        );
+        if (users.length > 0) {
+          role.getUsers().add(users);
+        }
+        if (childRoles.length > 0) {
+          role.getRoles().add(childRoles);
+        }
+        await role.save(null, { useMasterKey: true });
+        return {
+          success: true,
+          role: { name, objectId: role.id, ACL: acl },
+          users: users.map((user) => ({
+            objectId: user.id,
+            username: user.get("username"),
+          })),
+          childRoles: childRoles.map((child) => child.getName()),
+        };
+      }
+
+      case "delete_role": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage roles" };
+        }
+        const name = args.name as string;
+        const role = await findRole(profile, name);
+        await role.destroy({ useMasterKey: true });
+        return {
+          success: true,
+          deleted: name,
+          objectId: role.id,
+          note: `ACLs and class-level permissions that mention role:${name} were not changed.`,
+        };
+      }
+
+      case "add_users_to_role":
+      case "remove_users_from_role": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage roles" };
+        }
+        const role = await findRole(profile, args.roleName as string);
+        const users = await findUsers(profile, args.users as string[]);
+        if (name === "add_users_to_role") {
+          role.getUsers().add(users);
+        } else {
+          role.getUsers().remove(users);
+        }
+        await role.save(null, { useMasterKey: true });
+        return {
+          success: true,
+          role: role.getName(),
+          [name === "add_users_to_role" ? "added" : "removed"]: users.map(
+            (user) => ({ objectId: user.id, username: user.get("username") })
+          ),
+        };
+      }
+
+      case "add_child_role":
+      case "remove_child_role": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage roles" };
+        }
+        const roleName = args.roleName as string;
+        const childRoleName = args.childRoleName as string;
+        const role = await findRole(profile, roleName);
+        const child = await findRole(profile, childRoleName);
+        if (name === "add_child_role") {
+          const { graph } = await loadRoleGraph(profile);
+          if (roleDescendants(graph, childRoleName).has(roleName)) {
+            return {
+              error: `Adding ${childRoleName} as a child of ${roleName} would create a cycle: ${roleName} already inherits from ${childRoleName}`,
+            };
+          }
+          role.getRoles().add(child);
+        } else {
+          role.getRoles().remove(child);
+        }
+        await role.save(null, { useMasterKey: true });
+        return {
+          success: true,
+          role: roleName,
+          childRole: childRoleName,
+          summary:
+            name === "add_child_role"
+              ? `Members of ${childRoleName} now inherit the permissions of ${roleName}.`
+              : `Members of ${childRoleName} no longer inherit the permissions of ${roleName}.`,
+        };
+      }
+
+      // === Sessions & Installations ===
+      case "query_sessions":
+      case "query_installations": {
+        if (!profile.masterKey) {
+          return {
+            error: `Master Key is required to query ${name === "query_sessions" ? "_Session" : "_Installation"}`,
+          };
+        }
+        return name === "query_sessions"
+          ? await querySessions(profile, args)
+          : await queryInstallations(profile, args);
+      }
+
+      // === Push ===
+      case "send_push": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to send pushes" };
+        }
+        const audience = pushAudience(args);
+        if (!audience) {
+          return { error: PUSH_AUDIENCE_REQUIRED };
+        }
+        const body: Record<string, unknown> = {
+          where: audience,
+          data: args.data,
+        };
+        for (const key of ["push_time", "expiration_time"]) {
+          if (args[key]) {
+            body[key] = args[key];
+          }
+        }
+        const response = await parseRequest(profile, "POST", "push", body, {
+          useMasterKey: true,
         });
+        return {
+          success: true,
+          audience: body.where,
+          response,
+          note: "Parse Server queued the push. Check delivery with get_push_status.",
+        };
+      }
 
-        return users.map((user) => user.toJSON());
+      case "get_push_status": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to read _PushStatus" };
+        }
+        const query = new Parse.Query("_PushStatus");
+        if (args.pushStatusId) {
+          query.equalTo("objectId", args.pushStatusId);
+        }
+        query.descending("createdAt");
+        query.limit(Math.min((args.limit as number) || 10, 100));
+        const statuses = await query.find({ useMasterKey: true });
+        const pushes = statuses.map(describePushStatus);
+        return {
+          pushes,
+          totals: {
+            sent: pushes.reduce((total, push) => total + push.numSent, 0),
+            failed: pushes.reduce((total, push) => total + push.numFailed, 0),
+          },
+        };
       }
 
       // === Cloud Functions ===
@@ -1609,10 +11326,131 @@ async function handleToolCall(
         const functionName = args.functionName as string;
         const params = args.params as Record<string, unknown> | undefined;
 
-        const result = await Parse.Cloud.run(functionName, params || {});
+        const result = await Parse.Cloud.run(
+          functionName,
+          params || {},
+          context.userScope ? requestOptions : {}
+        );
         return result;
       }
 
+      case "list_cloud_functions": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to list jobs and webhooks" };
+        }
+        return await listCloudFunctions(profile);
+      }
+
+      case "run_job": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to run jobs" };
+        }
+        const jobName = args.jobName as string;
+        const jobStatusId = await Parse.Cloud.startJob(
+          jobName,
+          (args.params as Record<string, unknown>) || {}
+        );
+        return {
+          jobName,
+          jobStatusId,
+          status: "started",
+          note: "The job runs in the background. Poll get_job_status with this jobStatusId.",
+        };
+      }
+
+      case "get_job_status": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to read _JobStatus" };
+        }
+        const query = new Parse.Query("_JobStatus");
+        query.select(JOB_STATUS_KEYS);
+        if (args.jobStatusId) {
+          const status = await query.get(args.jobStatusId as string, {
+            useMasterKey: true,
+          });
+          return describeJobStatus(status);
+        }
+        if (args.jobName) {
+          query.equalTo("jobName", args.jobName);
+        }
+        query.descending("createdAt");
+        query.limit(Math.min((args.limit as number) || 10, 100));
+        const statuses = await query.find({ useMasterKey: true });
+        return { runs: statuses.map(describeJobStatus) };
+      }
+
+      // === Webhooks ===
+      case "list_hooks": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage webhooks" };
+        }
+        const functions = await parseRequest<FunctionHook[]>(
+          profile,
+          "GET",
+          "hooks/functions"
+        );
+        const triggers = await parseRequest<TriggerHook[]>(
+          profile,
+          "GET",
+          "hooks/triggers"
+        );
+        return {
+          functions,
+          triggers,
+          diagnosis: args.diagnose
+            ? await diagnoseHooks(profile, functions, triggers)
+            : undefined,
+        };
+      }
+
+      case "create_function_hook":
+      case "create_trigger_hook": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage webhooks" };
+        }
+        return await parseRequest(
+          profile,
+          "POST",
+          name === "create_function_hook"
+            ? "hooks/functions"
+            : "hooks/triggers",
+          name === "create_function_hook"
+            ? { functionName: args.functionName, url: args.url }
+            : {
+                className: args.className,
+                triggerName: args.triggerName,
+                url: args.url,
+              }
+        );
+      }
+
+      case "update_hook": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage webhooks" };
+        }
+        const path = hookPath(args);
+        const before = await parseRequest(profile, "GET", path);
+        const after = await parseRequest(profile, "PUT", path, {
+          url: args.url,
+        });
+        return { before, after };
+      }
+
+      case "delete_hook": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to manage webhooks" };
+        }
+        const path = hookPath(args);
+        const deleted = await parseRequest(profile, "GET", path);
+        // The Hooks API has no DELETE route: like Parse.Hooks.remove, it
+        // takes a PUT with a Delete op
+        await parseRequest(profile, "PUT", path, { __op: "Delete" });
+        return {
+          deleted,
+          note: "Recreate it with create_function_hook or create_trigger_hook if needed.",
+        };
+      }
+
       // === Aggregation ===
       case "aggregate_class": {
         const className = args.className as string;
@@ -1645,7 +11483,7 @@ async function handleToolCall(
         });
 
         const results = await Parse.Object.saveAll(parseObjects, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
         return results.map((obj) => obj.toJSON());
       }
@@ -1665,7 +11503,7 @@ async function handleToolCall(
         for (const update of updates) {
           const query = new Parse.Query(className);
           const obj = await query.get(update.objectId, {
-            useMasterKey: !!PARSE_MASTER_KEY,
+            useMasterKey: !!profile.masterKey,
           });
 
           for (const [key, value] of Object.entries(update.data)) {
@@ -1673,7 +11511,7 @@ async function handleToolCall(
           }
 
           const saved = await obj.save(null, {
-            useMasterKey: !!PARSE_MASTER_KEY,
+            useMasterKey: !!profile.masterKey,
           });
           results.push(saved.toJSON());
         }
@@ -1693,11 +11531,39 @@ async function handleToolCall(
         const objects = objectIds.map((id) => ParseClass.createWithoutData(id));
 
         await Parse.Object.destroyAll(objects, {
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
         return { success: true, deleted: objectIds.length };
       }
 
+      // === Export & Import ===
+      case "export_query":
+        return await exportQuery(profile, args);
+
+      case "import_data":
+        return await importData(profile, args, context);
+
+      // === Files ===
+      case "upload_file":
+        return await uploadFile(profile, args);
+
+      case "get_file_info": {
+        const file = await resolveFile(profile, args);
+        return { ...file, ...(await probeUrl(file.url, profile)) };
+      }
+
+      case "download_file":
+        return await downloadFile(profile, args);
+
+      case "find_orphaned_files": {
+        if (!profile.masterKey) {
+          return {
+            error: "Master Key is required to access schema information",
+          };
+        }
+        return await findOrphanedFiles(profile, args);
+      }
+
       // === Troubleshooting ===
       case "validate_pointer": {
         const className = args.className as string;
@@ -1706,7 +11572,7 @@ async function handleToolCall(
         try {
           const query = new Parse.Query(className);
           const obj = await query.get(objectId, {
-            useMasterKey: !!PARSE_MASTER_KEY,
+            useMasterKey: !!profile.masterKey,
           });
           return {
             valid: true,
@@ -1728,12 +11594,64 @@ async function handleToolCall(
         const limit = Math.min((args.limit as number) || 100, 1000);
         const skip = (args.skip as number) || 0;
 
+        if (args.scanAll || args.cursor) {
+          const orphaned: unknown[] = [];
+          const { scanned, nextCursor } = await scanQuery(
+            profile,
+            {
+              className,
+              where: { [pointerField]: { $exists: true } },
+              keys: [pointerField],
+            },
+            clampMaxObjects(args.maxObjects),
+            async (batch) => {
+              // Validate the whole batch with one query per target class
+              const pointers = batch
+                .map((obj) => ({ obj, pointer: obj.get(pointerField) }))
+                .filter(({ pointer }) => pointer?.className && pointer.id);
+              const missing = await findMissingPointers(
+                profile,
+                pointers.map(({ pointer }) => ({
+                  field: pointerField,
+                  className: pointer.className,
+                  objectId: pointer.id,
+                }))
+              );
+              for (const { obj, pointer } of pointers) {
+                if (
+                  missing.some(
+                    (m) =>
+                      m.className === pointer.className &&
+                      m.objectId === pointer.id
+                  )
+                ) {
+                  orphaned.push({
+                    objectId: obj.id,
+                    brokenPointer: {
+                      field: pointerField,
+                      targetClass: pointer.className,
+                      targetId: pointer.id,
+                    },
+                  });
+                }
+              }
+            },
+            args.cursor as string | undefined
+          );
+          return {
+            checked: scanned,
+            orphaned,
+            truncated: !!nextCursor,
+            nextCursor,
+          };
+        }
+
         const query = new Parse.Query(className);
         query.exists(pointerField);
         query.limit(limit);
         query.skip(skip);
 
-        const results = await query.find({ useMasterKey: !!PARSE_MASTER_KEY });
+        const results = await query.find({ useMasterKey: !!profile.masterKey });
         const orphaned = [];
 
         for (const obj of results) {
@@ -1742,7 +11660,7 @@ async function handleToolCall(
             try {
               const targetQuery = new Parse.Query(pointer.className);
               await targetQuery.get(pointer.id, {
-                useMasterKey: !!PARSE_MASTER_KEY,
+                useMasterKey: !!profile.masterKey,
               });
             } catch {
               orphaned.push({
@@ -1769,7 +11687,7 @@ async function handleToolCall(
         // Get count
         const countQuery = new Parse.Query(className);
         const count = await countQuery.count({
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
 
         // Get oldest
@@ -1777,7 +11695,7 @@ async function handleToolCall(
         oldestQuery.ascending("createdAt");
         oldestQuery.limit(1);
         const oldest = await oldestQuery.first({
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
 
         // Get newest
@@ -1785,22 +11703,39 @@ async function handleToolCall(
         newestQuery.descending("createdAt");
         newestQuery.limit(1);
         const newest = await newestQuery.first({
-          useMasterKey: !!PARSE_MASTER_KEY,
-        });
-
-        // Get field usage (sample-based for performance)
-        const sampleQuery = new Parse.Query(className);
-        sampleQuery.limit(100);
-        const sample = await sampleQuery.find({
-          useMasterKey: !!PARSE_MASTER_KEY,
+          useMasterKey: !!profile.masterKey,
         });
 
+        // Get field usage (sample-based for performance, unless scanAll)
         const fieldUsage: Record<string, number> = {};
-        for (const obj of sample) {
-          const json = obj.toJSON();
-          for (const key of Object.keys(json)) {
-            fieldUsage[key] = (fieldUsage[key] || 0) + 1;
+        const countFields = (objects: ParseSDK.Object[]) => {
+          for (const obj of objects) {
+            const json = obj.toJSON();
+            for (const key of Object.keys(json)) {
+              fieldUsage[key] = (fieldUsage[key] || 0) + 1;
+            }
           }
+        };
+
+        let sampleSize: number;
+        let truncated: boolean | undefined;
+        if (args.scanAll) {
+          const scan = await scanQuery(
+            profile,
+            { className },
+            clampMaxObjects(args.maxObjects),
+            countFields
+          );
+          sampleSize = scan.scanned;
+          truncated = !!scan.nextCursor;
+        } else {
+          const sampleQuery = new Parse.Query(className);
+          sampleQuery.limit(100);
+          const sample = await sampleQuery.find({
+            useMasterKey: !!profile.masterKey,
+          });
+          countFields(sample);
+          sampleSize = sample.length;
         }
 
         return {
@@ -1811,18 +11746,33 @@ async function handleToolCall(
             newest: newest?.createdAt,
           },
           fieldUsage: {
-            sampleSize: sample.length,
+            sampleSize,
+            scannedAll: args.scanAll ? !truncated : undefined,
             fields: Object.entries(fieldUsage)
               .map(([field, count]) => ({
                 field,
                 count,
-                percentage: Math.round((count / sample.length) * 100),
+                percentage: Math.round((count / sampleSize) * 100),
               }))
               .sort((a, b) => b.count - a.count),
           },
         };
       }
 
+      case "explain_query": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to explain queries" };
+        }
+        return await explainQuery(profile, args);
+      }
+
+      case "get_server_logs": {
+        if (!profile.masterKey) {
+          return { error: "Master Key is required to read server logs" };
+        }
+        return await getServerLogs(profile, args);
+      }
+
       // === Config ===
       case "get_config": {
         const config = await Parse.Config.get();
@@ -1838,7 +11788,7 @@ async function handleToolCall(
       }
 
       case "update_config": {
-        if (!PARSE_MASTER_KEY) {
+        if (!profile.masterKey) {
           return { error: "Master Key is required to update config" };
         }
         const params = args.params as Record<string, unknown>;
@@ -1846,6 +11796,10 @@ async function handleToolCall(
         return { success: result };
       }
 
+      // === Undo ===
+      case "undo_change":
+        return await undoChange(args.changeId as string, !!args.force);
+
       default:
         return { error: `Unknown tool: ${name}` };
     }
@@ -1945,7 +11899,13 @@ Start with simple queries and add constraints one at a time:
 Some data might be restricted by:
 - Class-level permissions (CLP)
 - Object-level ACLs
-- Missing Master Key for protected operations`;
+- Missing Master Key for protected operations
+
+### 7. Check the server logs
+Use \`get_server_logs\` to see server-side errors:
+- \`failedTool\` shows the lines logged around the last failed call of a tool
+- \`level: "error"\` lists recent errors only
+- Look for trigger (beforeFind, beforeSave) and cloud function errors`;
 
     case "safe_data_modification":
       return `# Safe Data Modification Guidelines
@@ -1961,6 +11921,7 @@ Some data might be restricted by:
 2. **VERIFY THE TARGET**
    - Use \`get_object_by_id\` to confirm you have the right object
    - Show the object to the user before modification
+   - Call the tool with \`dryRun: true\` first and show the user the before/after diff
    - For batch operations, show a summary of what will change
 
 3. **UNDERSTAND THE IMPACT**
@@ -1986,12 +11947,16 @@ Some data might be restricted by:
 - \`update_config\` - Server-wide configuration changes
 - Cloud functions - Unknown side effects
 
+\`delete_object\`, \`batch_delete\`, \`batch_update\` and \`update_config\` run in two phases:
+the first call only returns a plan and a \`confirmationToken\`. Show the plan to the user,
+and only call the tool again with the token once they have explicitly approved it.
+
 ## Recovery
 
 If something goes wrong:
 - Note the error message and code
 - Identify affected objects
-- Determine if manual restoration is needed
+- Use \`list_changes\` to find the change and \`undo_change\` to revert it
 - Report to the user immediately`;
 
     default:
@@ -2010,7 +11975,7 @@ const server = new Server(
   },
   {
     capabilities: {
-      tools: {},
+      tools: { listChanged: true },
       prompts: {},
       resources: {},
     },
@@ -2018,21 +11983,73 @@ const server = new Server(
 );
 
 // List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools: TOOLS };
+server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+  return {
+    tools: applyServerCapabilities(
+      TOOLS.filter((tool) => isToolVisible(tool.name))
+        .map(withEnvironmentArgument)
+        .map(withFormatArgument)
+        .map(withUserScopeArguments),
+      resolveProfile(undefined, extra.sessionId)
+    ),
+  };
 });
 
 // Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
-  const result = await handleToolCall(name, args || {});
+  const toolArgs = args || {};
+  // undo_change writes to the environment the change was recorded in
+  const undoneChange =
+    name === "undo_change"
+      ? changeJournal.find((change) => change.id === toolArgs.changeId)
+      : undefined;
+  const environment =
+    undoneChange?.environment ||
+    (toolArgs.environment as string | undefined) ||
+    getActiveEnvironment(extra.sessionId);
+
+  const startedAt = Date.now();
+  const context: ToolCallContext = { sessionId: extra.sessionId };
+  const decision = evaluatePolicy(name, toolArgs, environment);
+  const result = decision.allowed
+    ? await handleToolCall(name, toolArgs, context)
+    : {
+        error: `Tool call refused by policy: ${decision.reason}`,
+        code: "POLICY_DENIED",
+        tool: name,
+        environment,
+        classes: getTargetClasses(name, toolArgs),
+        rule: decision.rule,
+      };
+
+  if (UNDOABLE_TOOLS.has(name) && getAuditOutcome(result) === "success") {
+    recordChange(name, toolArgs, environment, context, result);
+  }
+
+  await recordAudit(
+    createAuditEntry(
+      name,
+      toolArgs,
+      environment,
+      context,
+      result,
+      Date.now() - startedAt
+    )
+  );
 
   return {
     content: [
       {
         type: "text" as const,
-        text:
-          typeof result === "string" ? result : JSON.stringify(result, null, 2),
+        text: renderResult(
+          name,
+          result,
+          RESPONSE_FORMATS.includes(toolArgs.format as string)
+            ? (toolArgs.format as ResponseFormat)
+            : "json",
+          extra.sessionId
+        ),
       },
     ],
   };
@@ -2069,15 +12086,28 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
       {
         uri: "parse://connection-info",
         name: "Parse Server Connection Info",
-        description: "Current Parse Server connection configuration",
+        description:
+          "Connection configuration and status of every configured environment",
         mimeType: "application/json",
       },
+      ...[...exportResources.values()].map((resource) => ({
+        uri: resource.uri,
+        name: `Export: ${resource.name}`,
+        description: `${resource.rowCount} rows exported at ${resource.createdAt}`,
+        mimeType: resource.mimeType,
+      })),
+      ...[...downloadResources.values()].map((resource) => ({
+        uri: resource.uri,
+        name: `File: ${resource.name}`,
+        description: `${resource.size} bytes downloaded at ${resource.createdAt}`,
+        mimeType: resource.mimeType,
+      })),
     ],
   };
 });
 
 // Read resource
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
   const { uri } = request.params;
 
   if (uri === "parse://connection-info") {
@@ -2088,12 +12118,9 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
           mimeType: "application/json",
           text: JSON.stringify(
             {
-              serverUrl: PARSE_SERVER_URL,
-              appId: PARSE_APP_ID,
-              hasMasterKey: !!PARSE_MASTER_KEY,
-              hasJsKey: !!PARSE_JS_KEY,
-              hasRestKey: !!PARSE_REST_KEY,
-              initialized: isInitialized,
+              defaultEnvironment,
+              activeEnvironment: getActiveEnvironment(extra.sessionId),
+              environments: [...profiles.values()].map(describeProfile),
             },
             null,
             2
@@ -2103,6 +12130,32 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     };
   }
 
+  const exportMatch = uri.match(/^parse:\/\/exports\/(.+)$/);
+  const resource = exportMatch && exportResources.get(exportMatch[1]);
+  if (resource) {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: resource.mimeType,
+          text: resource.content,
+        },
+      ],
+    };
+  }
+
+  const fileMatch = uri.match(/^parse:\/\/files\/(.+)$/);
+  const download = fileMatch && downloadResources.get(fileMatch[1]);
+  if (download) {
+    return {
+      contents: [
+        download.text !== undefined
+          ? { uri, mimeType: download.mimeType, text: download.text }
+          : { uri, mimeType: download.mimeType, blob: download.blob! },
+      ],
+    };
+  }
+
   throw new Error(`Resource not found: ${uri}`);
 });
 
@@ -2122,11 +12175,12 @@ async function startHttpServer() {
     res.json({
       status: "ok",
       transport: "http",
-      parse: {
-        initialized: isInitialized,
-        serverUrl: PARSE_SERVER_URL,
-        appId: PARSE_APP_ID,
-      },
+      parse: [...profiles.values()].map((profile) => ({
+        environment: profile.name,
+        initialized: profile.initialized,
+        serverUrl: profile.serverUrl,
+        appId: profile.appId,
+      })),
     });
   });
 
@@ -2195,12 +12249,13 @@ async function startHttpServer() {
     console.error(`Parse MCP Server running on http://${MCP_HOST}:${MCP_PORT}`);
     console.error(`  - MCP endpoint: http://${MCP_HOST}:${MCP_PORT}/mcp`);
     console.error(`  - Health check: http://${MCP_HOST}:${MCP_PORT}/health`);
-    console.error(
-      `  - Parse Server: ${PARSE_SERVER_URL || "(not configured)"}`
-    );
-    console.error(
-      `  - Master Key: ${PARSE_MASTER_KEY ? "configured" : "not configured"}`
-    );
+    for (const profile of profiles.values()) {
+      console.error(
+        `  - Parse Server [${profile.name}]: ${
+          profile.serverUrl || "(not configured)"
+        } (Master Key: ${profile.masterKey ? "configured" : "not configured"})`
+      );
+    }
   });
 }
 
@@ -2211,6 +12266,14 @@ async function startStdioServer() {
 }
 
 async function main() {
+  // Check what each server supports in the background; tools/list hides
+  // unsupported tools once this is known
+  for (const profile of profiles.values()) {
+    if (profile.initialized && profile.masterKey) {
+      detectServerInfo(profile);
+    }
+  }
+
   if (MCP_TRANSPORT === "stdio") {
     await startStdioServer();
   } else {